@@ -1,5 +1,5 @@
 import type { CacheMetadata } from '@commentary/shared';
-import type { ICacheService } from './ICacheService';
+import type { ICacheService, StaleCacheEntry } from './ICacheService';
 
 /**
  * Fallback cache service that tries multiple cache implementations in order
@@ -57,17 +57,36 @@ export class FallbackCacheService implements ICacheService {
     return null;
   }
 
+  /**
+   * Get possibly-stale entry from first cache that has it
+   */
+  async getStale<T = any>(key: string): Promise<StaleCacheEntry<T> | null> {
+    for (const cache of this.caches) {
+      try {
+        const entry = await cache.getStale<T>(key);
+        if (entry) {
+          return entry;
+        }
+      } catch (error) {
+        console.warn(`[FallbackCache] ${cache.getName()} getStale failed, trying fallback:`, error instanceof Error ? error.message : error);
+        continue;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Set in all caches (write-through)
    */
-  async set(key: string, value: any, ttlSeconds: number): Promise<void> {
+  async set(key: string, value: any, ttlSeconds: number, staleTtlSeconds: number = 0): Promise<void> {
     const errors: Array<{ cache: string; error: any }> = [];
 
     // Write to all caches
     await Promise.all(
       this.caches.map(async (cache) => {
         try {
-          await cache.set(key, value, ttlSeconds);
+          await cache.set(key, value, ttlSeconds, staleTtlSeconds);
         } catch (error) {
           errors.push({ cache: cache.getName(), error });
           console.error(`[FallbackCache] ${cache.getName()} SET failed:`, error);
@@ -1,5 +1,14 @@
 import type { CacheMetadata } from '@commentary/shared';
 
+/**
+ * Cache entry returned by stale reads
+ */
+export interface StaleCacheEntry<T = any> {
+  value: T;
+  metadata: CacheMetadata;
+  stale: boolean; // True once the entry is past its TTL but within its stale window
+}
+
 /**
  * Cache service interface
  * Implementations: RedisCacheService, InMemoryCacheService, FallbackCacheService
@@ -12,13 +21,22 @@ export interface ICacheService {
    */
   get<T = any>(key: string): Promise<T | null>;
 
+  /**
+   * Get data from cache, including entries past their TTL that are still
+   * within their stale window (stale-while-revalidate)
+   * @param key - Cache key
+   * @returns Value with metadata and staleness, or null if not found/past stale window
+   */
+  getStale<T = any>(key: string): Promise<StaleCacheEntry<T> | null>;
+
   /**
    * Set data in cache with TTL
    * @param key - Cache key
    * @param value - Value to cache
    * @param ttlSeconds - Time to live in seconds
+   * @param staleTtlSeconds - How long to keep serving the entry via getStale after it expires (default: 0)
    */
-  set(key: string, value: any, ttlSeconds: number): Promise<void>;
+  set(key: string, value: any, ttlSeconds: number, staleTtlSeconds?: number): Promise<void>;
 
   /**
    * Delete data from cache
@@ -1,10 +1,11 @@
 import type { CacheMetadata } from '@commentary/shared';
-import type { ICacheService } from './ICacheService';
+import type { ICacheService, StaleCacheEntry } from './ICacheService';
 
 interface CacheEntry {
   data: any;
   expiresAt: number;
   createdAt: number;
+  staleUntil: number; // Entry is kept for stale reads until this time
 }
 
 /**
@@ -32,20 +33,48 @@ export class InMemoryCacheService implements ICacheService {
     }
 
     // Check if expired
-    if (entry.expiresAt <= Date.now()) {
-      this.cache.delete(key);
+    if (this.isExpired(key, entry)) {
       return null;
     }
 
     return entry.data as T;
   }
 
-  async set(key: string, value: any, ttlSeconds: number): Promise<void> {
+  async getStale<T = any>(key: string): Promise<StaleCacheEntry<T> | null> {
+    const entry = this.cache.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    const now = Date.now();
+
+    // Past the stale window - gone for good
+    if (entry.staleUntil <= now) {
+      this.cache.delete(key);
+      return null;
+    }
+
+    return {
+      value: entry.data as T,
+      metadata: {
+        key,
+        ttl: Math.max(0, Math.floor((entry.expiresAt - now) / 1000)),
+        createdAt: entry.createdAt,
+        expiresAt: entry.expiresAt
+      },
+      stale: entry.expiresAt <= now
+    };
+  }
+
+  async set(key: string, value: any, ttlSeconds: number, staleTtlSeconds: number = 0): Promise<void> {
     const now = Date.now();
+    const expiresAt = now + (ttlSeconds * 1000);
     const entry: CacheEntry = {
       data: value,
       createdAt: now,
-      expiresAt: now + (ttlSeconds * 1000)
+      expiresAt,
+      staleUntil: expiresAt + (staleTtlSeconds * 1000)
     };
 
     this.cache.set(key, entry);
@@ -63,8 +92,7 @@ export class InMemoryCacheService implements ICacheService {
     }
 
     // Check if expired
-    if (entry.expiresAt <= Date.now()) {
-      this.cache.delete(key);
+    if (this.isExpired(key, entry)) {
       return false;
     }
 
@@ -79,8 +107,7 @@ export class InMemoryCacheService implements ICacheService {
     }
 
     // Check if expired
-    if (entry.expiresAt <= Date.now()) {
-      this.cache.delete(key);
+    if (this.isExpired(key, entry)) {
       return null;
     }
 
@@ -109,14 +136,31 @@ export class InMemoryCacheService implements ICacheService {
   }
 
   /**
-   * Remove expired entries from cache
+   * Check if an entry has expired, dropping it once it's also past its stale window
+   */
+  private isExpired(key: string, entry: CacheEntry): boolean {
+    const now = Date.now();
+
+    if (entry.expiresAt > now) {
+      return false;
+    }
+
+    if (entry.staleUntil <= now) {
+      this.cache.delete(key);
+    }
+
+    return true;
+  }
+
+  /**
+   * Remove entries past their stale window from cache
    */
   private cleanExpired(): void {
     const now = Date.now();
     let cleaned = 0;
 
     for (const [key, entry] of this.cache.entries()) {
-      if (entry.expiresAt <= now) {
+      if (entry.staleUntil <= now) {
         this.cache.delete(key);
         cleaned++;
       }
@@ -1,6 +1,16 @@
 import Redis from 'ioredis';
 import type { CacheMetadata } from '@commentary/shared';
-import type { ICacheService } from './ICacheService';
+import type { ICacheService, StaleCacheEntry } from './ICacheService';
+
+/**
+ * Stored form of a cache entry
+ * The Redis key lives for TTL + stale window; expiresAt marks the logical TTL
+ */
+interface RedisCacheEnvelope {
+  data: any;
+  createdAt: number;
+  expiresAt: number;
+}
 
 /**
  * Redis cache implementation
@@ -46,26 +56,43 @@ export class RedisCacheService implements ICacheService {
   }
 
   async get<T = any>(key: string): Promise<T | null> {
-    if (!this.connected) {
-      throw new Error('Redis not connected');
+    const envelope = await this.getEnvelope(key);
+
+    if (!envelope || envelope.expiresAt <= Date.now()) {
+      return null;
     }
 
-    try {
-      const data = await this.redis.get(key);
-      return data ? JSON.parse(data) : null;
-    } catch (error) {
-      console.error(`[Redis] GET error for key ${key}:`, error);
-      throw error;
+    return envelope.data as T;
+  }
+
+  async getStale<T = any>(key: string): Promise<StaleCacheEntry<T> | null> {
+    const envelope = await this.getEnvelope(key);
+
+    if (!envelope) {
+      return null; // Not found or past its stale window (Redis expired it)
     }
+
+    return {
+      value: envelope.data as T,
+      metadata: this.toMetadata(key, envelope),
+      stale: envelope.expiresAt <= Date.now()
+    };
   }
 
-  async set(key: string, value: any, ttlSeconds: number): Promise<void> {
+  async set(key: string, value: any, ttlSeconds: number, staleTtlSeconds: number = 0): Promise<void> {
     if (!this.connected) {
       throw new Error('Redis not connected');
     }
 
+    const now = Date.now();
+    const envelope: RedisCacheEnvelope = {
+      data: value,
+      createdAt: now,
+      expiresAt: now + (ttlSeconds * 1000)
+    };
+
     try {
-      await this.redis.setex(key, ttlSeconds, JSON.stringify(value));
+      await this.redis.setex(key, ttlSeconds + staleTtlSeconds, JSON.stringify(envelope));
     } catch (error) {
       console.error(`[Redis] SET error for key ${key}:`, error);
       throw error;
@@ -86,44 +113,18 @@ export class RedisCacheService implements ICacheService {
   }
 
   async exists(key: string): Promise<boolean> {
-    if (!this.connected) {
-      throw new Error('Redis not connected');
-    }
-
-    try {
-      const result = await this.redis.exists(key);
-      return result === 1;
-    } catch (error) {
-      console.error(`[Redis] EXISTS error for key ${key}:`, error);
-      throw error;
-    }
+    const envelope = await this.getEnvelope(key);
+    return !!envelope && envelope.expiresAt > Date.now();
   }
 
   async getMetadata(key: string): Promise<CacheMetadata | null> {
-    if (!this.connected) {
-      throw new Error('Redis not connected');
-    }
-
-    try {
-      const ttl = await this.redis.ttl(key);
+    const envelope = await this.getEnvelope(key);
 
-      if (ttl <= 0) {
-        return null; // Key doesn't exist or has no expiration
-      }
-
-      const now = Date.now();
-      const ttlMs = ttl * 1000;
-
-      return {
-        key,
-        ttl,
-        createdAt: now - ttlMs, // Approximation
-        expiresAt: now + ttlMs
-      };
-    } catch (error) {
-      console.error(`[Redis] TTL error for key ${key}:`, error);
-      throw error;
+    if (!envelope || envelope.expiresAt <= Date.now()) {
+      return null;
     }
+
+    return this.toMetadata(key, envelope);
   }
 
   async clear(): Promise<void> {
@@ -152,6 +153,56 @@ export class RedisCacheService implements ICacheService {
     return 'RedisCache';
   }
 
+  /**
+   * Read and parse the stored envelope for a key
+   * Values written before entries were wrapped in an envelope count as missing.
+   */
+  private async getEnvelope(key: string): Promise<RedisCacheEnvelope | null> {
+    if (!this.connected) {
+      throw new Error('Redis not connected');
+    }
+
+    let stored: unknown;
+    try {
+      const data = await this.redis.get(key);
+      stored = data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error(`[Redis] GET error for key ${key}:`, error);
+      throw error;
+    }
+
+    if (stored === null) {
+      return null;
+    }
+
+    if (!this.isEnvelope(stored)) {
+      console.warn(`[Redis] Ignoring legacy entry for key ${key}`);
+      return null;
+    }
+
+    return stored;
+  }
+
+  private isEnvelope(stored: unknown): stored is RedisCacheEnvelope {
+    if (typeof stored !== 'object' || stored === null) {
+      return false;
+    }
+
+    const envelope = stored as Partial<RedisCacheEnvelope>;
+    return 'data' in envelope &&
+      typeof envelope.createdAt === 'number' &&
+      typeof envelope.expiresAt === 'number';
+  }
+
+  private toMetadata(key: string, envelope: RedisCacheEnvelope): CacheMetadata {
+    return {
+      key,
+      ttl: Math.max(0, Math.floor((envelope.expiresAt - Date.now()) / 1000)),
+      createdAt: envelope.createdAt,
+      expiresAt: envelope.expiresAt
+    };
+  }
+
   /**
    * Check if Redis is connected
    */
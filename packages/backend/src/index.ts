@@ -2,6 +2,13 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import { tournamentRouter } from './routes/tournament';
+import { watchRouter } from './routes/watch';
+import { playerRouter } from './routes/player';
+import { headToHeadRouter } from './routes/h2h';
+import { scoreboardRouter } from './routes/scoreboard';
+import { notesRouter } from './routes/notes';
+import { prepRouter } from './routes/prep';
+import { dataStore } from './store';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -30,6 +37,12 @@ app.get('/health', (req, res) => {
 
 // API routes
 app.use('/api/tournament', tournamentRouter);
+app.use('/api/watch', watchRouter);
+app.use('/api/player', playerRouter);
+app.use('/api/h2h', headToHeadRouter);
+app.use('/api/scoreboard', scoreboardRouter);
+app.use('/api/notes', notesRouter);
+app.use('/api/prep', prepRouter);
 
 // 404 handler
 app.use((req, res) => {
@@ -63,18 +76,48 @@ Available endpoints:
   GET  /health                           - Health check
   GET  /api/tournament/:slug             - Get tournament (cached)
   GET  /api/tournament/:slug?refresh=true - Get tournament (bypass cache)
+  GET  /api/tournament/:slug/progressive - Get tournament bracket by bracket (NDJSON)
+  GET  /api/tournament/:slug/event/:eventSlug - Get a single event (cached)
+  GET  /api/tournament/:slug/event/:eventSlug/progressive - Single event, bracket by bracket (NDJSON)
+  GET  /api/tournament/:slug/event/:eventSlug/stream - Live updates for a single event (SSE)
+  GET  /api/tournament/:slug/event/:eventSlug/standings - Final and projected placements
+  GET  /api/tournament/:slug/event/:eventSlug/characters - Character usage & win rates
+  GET  /api/tournament/:slug/event/:eventSlug/categories - Player categories with reasons
   POST /api/tournament/:slug/refresh     - Bust cache & refresh
   GET  /api/tournament/:slug/cache-status - Check cache status
+  GET  /api/tournament/:slug/stream      - Live updates (Server-Sent Events)
+  GET  /api/tournament/:slug/changes?since=<ms> - Changes between snapshots
+  GET  /api/watch                        - List watched tournaments
+  POST /api/watch/:slug?hours=12         - Keep tournament warm in background
+  GET  /api/watch/:slug                  - Watch status
+  DELETE /api/watch/:slug                - Stop watching
+  GET  /api/player/:id                   - Player history & achievements (cached)
+  GET  /api/player/:id/characters        - Player character history (cached)
+  GET  /api/player/:id/rating            - Player Glicko-2 rating
+  GET  /api/h2h/:playerA/:playerB        - Head-to-head set record (cached)
+  GET  /api/scoreboard/:slug/:eventSlug  - Broadcast scoreboard
+  PUT  /api/scoreboard/:slug/:eventSlug  - Select set / override scores
+  DELETE /api/scoreboard/:slug/:eventSlug/override - Clear override
+  GET  /api/notes/:slug                  - Commentator notes (?playerId=&matchId=)
+  POST /api/notes/:slug                  - Add note
+  PUT  /api/notes/:slug/:id              - Edit note
+  DELETE /api/notes/:slug/:id            - Delete note
+  GET  /api/prep/:slug                   - Prep sheets of a tournament
+  GET  /api/prep/:slug/:playerId         - A player's prep sheet
+  PUT  /api/prep/:slug/:playerId         - Create/update prep sheet
+  DELETE /api/prep/:slug/:playerId       - Delete prep sheet
   `);
 });
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully...');
+  await dataStore.close(); // Finish pending writes
   process.exit(0);
 });
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log('\nSIGINT received, shutting down gracefully...');
+  await dataStore.close(); // Finish pending writes
   process.exit(0);
 });
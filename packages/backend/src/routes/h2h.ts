@@ -0,0 +1,35 @@
+import { Router, Request, Response } from 'express';
+import { loadHeadToHead } from '../services/head-to-head';
+
+export const headToHeadRouter = Router();
+
+/**
+ * GET /api/h2h/:playerA/:playerB
+ * Get the historical set record between two players
+ * Both ids are start.gg player ids (Player.startggId)
+ * Query params:
+ *   - refresh: boolean - force cache bypass
+ */
+headToHeadRouter.get('/:playerA/:playerB', async (req: Request, res: Response) => {
+  try {
+    const { playerA, playerB } = req.params;
+    const bustCache = req.query.refresh === 'true';
+
+    if (playerA === playerB) {
+      return res.status(400).json({
+        error: 'Head-to-head needs two different players',
+        source: 'backend'
+      });
+    }
+
+    const response = await loadHeadToHead(playerA, playerB, { bustCache });
+
+    res.json(response);
+  } catch (error) {
+    console.error('Head-to-head fetch error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to fetch head-to-head record',
+      source: 'backend'
+    });
+  }
+});
@@ -0,0 +1,155 @@
+import { Router, Request, Response } from 'express';
+import { listNotes, createNote, updateNote, deleteNote } from '../services/notes';
+import type { NoteInput, NotesResponse } from '@commentary/shared';
+
+export const notesRouter = Router();
+
+const MAX_NOTE_LENGTH = 2000;
+
+/**
+ * GET /api/notes/:slug
+ * List a tournament's commentator notes, oldest first
+ * Query params:
+ *   - playerId: string - only notes about this player (Player.id)
+ *   - matchId: string - only notes about this match (Match.id)
+ */
+notesRouter.get('/:slug', async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+    const playerId = typeof req.query.playerId === 'string' ? req.query.playerId : undefined;
+    const matchId = typeof req.query.matchId === 'string' ? req.query.matchId : undefined;
+
+    const response: NotesResponse = {
+      slug,
+      notes: await listNotes(slug, { playerId, matchId })
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Notes fetch error:', error);
+    res.status(500).json({
+      error: 'Failed to get notes',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * POST /api/notes/:slug
+ * Add a note about a player and/or match
+ * Body (NoteInput):
+ *   - text: string - required
+ *   - playerId, matchId, author: string - optional
+ */
+notesRouter.post('/:slug', async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+    const input: NoteInput = req.body || {};
+
+    const validationError = validateText(input.text) || validateOptionalStrings(input);
+    if (validationError) {
+      return res.status(400).json({
+        error: validationError,
+        source: 'backend'
+      });
+    }
+
+    const note = await createNote(slug, { ...input, text: input.text.trim() });
+
+    res.status(201).json(note);
+  } catch (error) {
+    console.error('Note create error:', error);
+    res.status(500).json({
+      error: 'Failed to create note',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * PUT /api/notes/:slug/:id
+ * Replace a note's text
+ * Body:
+ *   - text: string - required
+ */
+notesRouter.put('/:slug/:id', async (req: Request, res: Response) => {
+  try {
+    const { slug, id } = req.params;
+    const text = req.body?.text;
+
+    const validationError = validateText(text);
+    if (validationError) {
+      return res.status(400).json({
+        error: validationError,
+        source: 'backend'
+      });
+    }
+
+    const note = await updateNote(slug, id, text.trim());
+
+    if (!note) {
+      return res.status(404).json({
+        error: `Note "${id}" not found`,
+        source: 'backend'
+      });
+    }
+
+    res.json(note);
+  } catch (error) {
+    console.error('Note update error:', error);
+    res.status(500).json({
+      error: 'Failed to update note',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * DELETE /api/notes/:slug/:id
+ * Delete a note
+ */
+notesRouter.delete('/:slug/:id', async (req: Request, res: Response) => {
+  try {
+    const { slug, id } = req.params;
+
+    if (!(await deleteNote(slug, id))) {
+      return res.status(404).json({
+        error: `Note "${id}" not found`,
+        source: 'backend'
+      });
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Note delete error:', error);
+    res.status(500).json({
+      error: 'Failed to delete note',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * @returns Error message, or null if the text is valid
+ */
+function validateText(text: unknown): string | null {
+  if (typeof text !== 'string' || text.trim().length === 0) {
+    return 'Field "text" must be a non-empty string';
+  }
+
+  if (text.length > MAX_NOTE_LENGTH) {
+    return `Field "text" must be at most ${MAX_NOTE_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+function validateOptionalStrings(input: NoteInput): string | null {
+  for (const field of ['playerId', 'matchId', 'author'] as const) {
+    if (input[field] !== undefined && typeof input[field] !== 'string') {
+      return `Field "${field}" must be a string`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,96 @@
+import { Router, Request, Response } from 'express';
+import { loadPlayerProfile } from '../services/player-profile';
+import { loadPlayerCharacterHistory } from '../services/character-stats';
+import { getPlayerRating } from '../services/ratings';
+
+export const playerRouter = Router();
+
+/**
+ * GET /api/player/:id
+ * Get a player's tournament history and achievements across tournaments
+ * `id` is the start.gg player id (Player.startggId)
+ * Query params:
+ *   - refresh: boolean - force cache bypass
+ */
+playerRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const bustCache = req.query.refresh === 'true';
+
+    const response = await loadPlayerProfile(id, { bustCache });
+
+    if (!response) {
+      return res.status(404).json({
+        error: `Player "${id}" not found`,
+        source: 'backend'
+      });
+    }
+
+    res.json(response);
+  } catch (error) {
+    console.error('Player profile fetch error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to fetch player profile',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * GET /api/player/:id/characters
+ * Get the characters a player picked across their recent sets, with win rates
+ * `id` is the start.gg player id (Player.startggId)
+ * Query params:
+ *   - refresh: boolean - force cache bypass
+ */
+playerRouter.get('/:id/characters', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const bustCache = req.query.refresh === 'true';
+
+    const response = await loadPlayerCharacterHistory(id, { bustCache });
+
+    if (!response) {
+      return res.status(404).json({
+        error: `Player "${id}" not found`,
+        source: 'backend'
+      });
+    }
+
+    res.json(response);
+  } catch (error) {
+    console.error('Player character history error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to fetch player characters',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * GET /api/player/:id/rating
+ * Get a player's Glicko-2 rating, rated from the sets of every tournament loaded
+ * `id` is the start.gg player id (Player.startggId)
+ */
+playerRouter.get('/:id/rating', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const rating = await getPlayerRating(id);
+
+    if (!rating) {
+      return res.status(404).json({
+        error: `Player "${id}" has no rating yet`,
+        source: 'backend'
+      });
+    }
+
+    res.json(rating);
+  } catch (error) {
+    console.error('Player rating fetch error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to fetch player rating',
+      source: 'backend'
+    });
+  }
+});
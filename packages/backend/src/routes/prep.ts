@@ -0,0 +1,145 @@
+import { Router, Request, Response } from 'express';
+import { listPrepSheets, getPrepSheet, savePrepSheet, deletePrepSheet } from '../services/prep-sheets';
+import type { PrepSheetInput, PrepSheetsResponse } from '@commentary/shared';
+
+export const prepRouter = Router();
+
+const MAX_TEXT_LENGTH = 2000;
+const MAX_TALKING_POINTS = 20;
+
+/**
+ * GET /api/prep/:slug
+ * List the prep sheets of every player in a tournament
+ */
+prepRouter.get('/:slug', async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+
+    const response: PrepSheetsResponse = {
+      slug,
+      sheets: await listPrepSheets(slug)
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Prep sheets fetch error:', error);
+    res.status(500).json({
+      error: 'Failed to get prep sheets',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * GET /api/prep/:slug/:playerId
+ * Get a player's prep sheet
+ */
+prepRouter.get('/:slug/:playerId', async (req: Request, res: Response) => {
+  try {
+    const { slug, playerId } = req.params;
+
+    const sheet = await getPrepSheet(slug, playerId);
+
+    if (!sheet) {
+      return res.status(404).json({
+        error: `No prep sheet for player "${playerId}"`,
+        source: 'backend'
+      });
+    }
+
+    res.json(sheet);
+  } catch (error) {
+    console.error('Prep sheet fetch error:', error);
+    res.status(500).json({
+      error: 'Failed to get prep sheet',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * PUT /api/prep/:slug/:playerId
+ * Create or update a player's prep sheet, fields left out keep their value
+ * Body (PrepSheetInput):
+ *   - storyline, pronunciation, updatedBy: string
+ *   - talkingPoints: string[]
+ */
+prepRouter.put('/:slug/:playerId', async (req: Request, res: Response) => {
+  try {
+    const { slug, playerId } = req.params;
+    const input: PrepSheetInput = req.body || {};
+
+    const validationError = validatePrepSheetInput(input);
+    if (validationError) {
+      return res.status(400).json({
+        error: validationError,
+        source: 'backend'
+      });
+    }
+
+    const sheet = await savePrepSheet(slug, playerId, {
+      storyline: input.storyline?.trim(),
+      pronunciation: input.pronunciation?.trim(),
+      talkingPoints: input.talkingPoints?.map(point => point.trim()).filter(point => point.length > 0),
+      updatedBy: input.updatedBy?.trim()
+    });
+
+    res.json(sheet);
+  } catch (error) {
+    console.error('Prep sheet save error:', error);
+    res.status(500).json({
+      error: 'Failed to save prep sheet',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * DELETE /api/prep/:slug/:playerId
+ * Delete a player's prep sheet
+ */
+prepRouter.delete('/:slug/:playerId', async (req: Request, res: Response) => {
+  try {
+    const { slug, playerId } = req.params;
+
+    if (!(await deletePrepSheet(slug, playerId))) {
+      return res.status(404).json({
+        error: `No prep sheet for player "${playerId}"`,
+        source: 'backend'
+      });
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Prep sheet delete error:', error);
+    res.status(500).json({
+      error: 'Failed to delete prep sheet',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * @returns Error message, or null if the input is valid
+ */
+function validatePrepSheetInput(input: PrepSheetInput): string | null {
+  for (const field of ['storyline', 'pronunciation', 'updatedBy'] as const) {
+    const value = input[field];
+    if (value !== undefined && (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH)) {
+      return `Field "${field}" must be a string of at most ${MAX_TEXT_LENGTH} characters`;
+    }
+  }
+
+  const talkingPoints = input.talkingPoints;
+  if (talkingPoints !== undefined) {
+    if (!Array.isArray(talkingPoints) || talkingPoints.some(point => typeof point !== 'string' || point.length > MAX_TEXT_LENGTH)) {
+      return `Field "talkingPoints" must be an array of strings of at most ${MAX_TEXT_LENGTH} characters`;
+    }
+
+    if (talkingPoints.length > MAX_TALKING_POINTS) {
+      return `Field "talkingPoints" can have at most ${MAX_TALKING_POINTS} entries`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,132 @@
+import { Router, Request, Response } from 'express';
+import { getScoreboard, updateScoreboard } from '../services/scoreboard';
+import type { ScoreboardUpdate } from '@commentary/shared';
+
+export const scoreboardRouter = Router();
+
+/**
+ * GET /api/scoreboard/:slug/:eventSlug
+ * Get the event's scoreboard: the selected set, the producer override and
+ * the set as overlays should show it
+ */
+scoreboardRouter.get('/:slug/:eventSlug', async (req: Request, res: Response) => {
+  try {
+    const { slug, eventSlug } = req.params;
+
+    const scoreboard = await getScoreboard(slug, eventSlug);
+
+    if (!scoreboard) {
+      return res.status(404).json({
+        error: `Event "${eventSlug}" not found in tournament "${slug}"`,
+        source: 'backend'
+      });
+    }
+
+    res.json(scoreboard);
+  } catch (error) {
+    console.error('Scoreboard fetch error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to get scoreboard',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * PUT /api/scoreboard/:slug/:eventSlug
+ * Select the scoreboard's set and/or override tags, scores and round
+ * Body (ScoreboardUpdate):
+ *   - matchId: string | null - set to show, switching sets drops the override
+ *   - override: object | null - { player1Tag, player2Tag, player1Score, player2Score, round }
+ */
+scoreboardRouter.put('/:slug/:eventSlug', async (req: Request, res: Response) => {
+  try {
+    const { slug, eventSlug } = req.params;
+    const update: ScoreboardUpdate = req.body || {};
+
+    const validationError = validateScoreboardUpdate(update);
+    if (validationError) {
+      return res.status(400).json({
+        error: validationError,
+        source: 'backend'
+      });
+    }
+
+    const scoreboard = await updateScoreboard(slug, eventSlug, update);
+
+    if (!scoreboard) {
+      return res.status(404).json({
+        error: `Event "${eventSlug}" not found in tournament "${slug}"`,
+        source: 'backend'
+      });
+    }
+
+    res.json(scoreboard);
+  } catch (error) {
+    console.error('Scoreboard update error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to update scoreboard',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * DELETE /api/scoreboard/:slug/:eventSlug/override
+ * Drop the override and show start.gg's data again
+ */
+scoreboardRouter.delete('/:slug/:eventSlug/override', async (req: Request, res: Response) => {
+  try {
+    const { slug, eventSlug } = req.params;
+
+    const scoreboard = await updateScoreboard(slug, eventSlug, { override: null });
+
+    if (!scoreboard) {
+      return res.status(404).json({
+        error: `Event "${eventSlug}" not found in tournament "${slug}"`,
+        source: 'backend'
+      });
+    }
+
+    res.json(scoreboard);
+  } catch (error) {
+    console.error('Scoreboard override clear error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to clear scoreboard override',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * @returns Error message, or null if the update is valid
+ */
+function validateScoreboardUpdate(update: ScoreboardUpdate): string | null {
+  if (update.matchId !== undefined && update.matchId !== null && typeof update.matchId !== 'string') {
+    return 'Field "matchId" must be a string or null';
+  }
+
+  const override = update.override;
+  if (override === undefined || override === null) {
+    return null;
+  }
+
+  if (typeof override !== 'object') {
+    return 'Field "override" must be an object or null';
+  }
+
+  for (const field of ['player1Tag', 'player2Tag', 'round'] as const) {
+    if (override[field] !== undefined && typeof override[field] !== 'string') {
+      return `Field "override.${field}" must be a string`;
+    }
+  }
+
+  for (const field of ['player1Score', 'player2Score'] as const) {
+    const score = override[field];
+    if (score !== undefined && (!Number.isInteger(score) || score < 0)) {
+      return `Field "override.${field}" must be a non-negative integer`;
+    }
+  }
+
+  return null;
+}
@@ -1,8 +1,11 @@
 import { Router, Request, Response } from 'express';
-import { startGgApi } from '../startgg';
-import { cacheService } from '../cache'; // Now uses the new interface-based implementation
-import { calculateDynamicTTL, getMatchStateMetadata } from '../utils/ttl-calculator';
-import type { TournamentResponse } from '@commentary/shared';
+import { loadTournament, loadTournamentEvent, getTournamentCacheStatus } from '../services/tournament-loader';
+import { getChangesSince } from '../services/change-log';
+import { loadEventStandings } from '../services/standings';
+import { loadEventCharacterStats } from '../services/character-stats';
+import { loadEventCategories } from '../services/categorization';
+import { tournamentStreamHub } from '../stream/TournamentStreamHub';
+import type { TournamentChangesResponse, TournamentLoadMessage } from '@commentary/shared';
 
 export const tournamentRouter = Router();
 
@@ -17,61 +20,199 @@ tournamentRouter.get('/:slug', async (req: Request, res: Response) => {
     const { slug } = req.params;
     const bustCache = req.query.refresh === 'true';
 
-    const cacheKey = `tournament:${slug}`;
-
-    // Check cache unless refresh is requested
-    if (!bustCache) {
-      const cached = await cacheService.get(cacheKey);
-      if (cached) {
-        console.log(`[CACHE HIT] ${slug}`);
-        const metadata = await cacheService.getMetadata(cacheKey);
-
-        const response: TournamentResponse = {
-          data: cached,
-          cached: true,
-          metadata: {
-            cachedAt: metadata?.createdAt,
-            ttl: metadata?.ttl,
-            ...getMatchStateMetadata(cached)
-          }
-        };
-
-        return res.json(response);
-      }
+    const response = await loadTournament(slug, { bustCache });
+
+    res.json(response);
+  } catch (error) {
+    console.error('Tournament fetch error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to fetch tournament',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * GET /api/tournament/:slug/event/:eventSlug
+ * Get a single event of a tournament with smart caching
+ * Only this event's phase groups and sets are loaded from start.gg
+ * Query params:
+ *   - refresh: boolean - force cache bypass
+ */
+tournamentRouter.get('/:slug/event/:eventSlug', async (req: Request, res: Response) => {
+  try {
+    const { slug, eventSlug } = req.params;
+    const bustCache = req.query.refresh === 'true';
+
+    const response = await loadTournamentEvent(slug, eventSlug, { bustCache });
+
+    if (!response) {
+      return res.status(404).json({
+        error: `Event "${eventSlug}" not found in tournament "${slug}"`,
+        source: 'backend'
+      });
     }
 
-    console.log(`[CACHE MISS] ${slug} (refresh: ${bustCache})`);
+    res.json(response);
+  } catch (error) {
+    console.error('Tournament event fetch error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to fetch tournament event',
+      source: 'backend'
+    });
+  }
+});
 
-    // Fetch fresh data from start.gg
-    const tournament = await startGgApi.getTournamentBySlug(slug);
+/**
+ * GET /api/tournament/:slug/event/:eventSlug/standings
+ * Get final placements, and for players still in the placements they can still reach
+ * Query params:
+ *   - refresh: boolean - force cache bypass
+ */
+tournamentRouter.get('/:slug/event/:eventSlug/standings', async (req: Request, res: Response) => {
+  try {
+    const { slug, eventSlug } = req.params;
+    const bustCache = req.query.refresh === 'true';
 
-    // Calculate dynamic TTL based on match states
-    const ttl = calculateDynamicTTL(tournament);
-    const matchMetadata = getMatchStateMetadata(tournament);
+    const response = await loadEventStandings(slug, eventSlug, { bustCache });
 
-    console.log(`[TTL] ${slug} -> ${ttl}s (ongoing: ${matchMetadata.counts.ongoing}, recent: ${matchMetadata.counts.recentlyCompleted})`);
+    if (!response) {
+      return res.status(404).json({
+        error: `Event "${eventSlug}" not found in tournament "${slug}"`,
+        source: 'backend'
+      });
+    }
 
-    // Cache the result
-    await cacheService.set(cacheKey, tournament, ttl);
+    res.json(response);
+  } catch (error) {
+    console.error('Event standings error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to get event standings',
+      source: 'backend'
+    });
+  }
+});
 
-    const response: TournamentResponse = {
-      data: tournament,
-      cached: false,
-      metadata: {
-        cachedAt: Date.now(),
-        ttl,
-        ...matchMetadata
-      }
-    };
+/**
+ * GET /api/tournament/:slug/event/:eventSlug/characters
+ * Get character representation and win rates across an event, and every player's picks
+ * Query params:
+ *   - refresh: boolean - force cache bypass
+ */
+tournamentRouter.get('/:slug/event/:eventSlug/characters', async (req: Request, res: Response) => {
+  try {
+    const { slug, eventSlug } = req.params;
+    const bustCache = req.query.refresh === 'true';
+
+    const response = await loadEventCharacterStats(slug, eventSlug, { bustCache });
+
+    if (!response) {
+      return res.status(404).json({
+        error: `Event "${eventSlug}" not found in tournament "${slug}"`,
+        source: 'backend'
+      });
+    }
 
     res.json(response);
   } catch (error) {
-    console.error('Tournament fetch error:', error);
+    console.error('Event character stats error:', error);
     res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to get character stats',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * GET /api/tournament/:slug/event/:eventSlug/categories
+ * Get an event's players categorized by the category rules (contenders, dark horses, losers runs, ...)
+ * Query params:
+ *   - refresh: boolean - force cache bypass
+ */
+tournamentRouter.get('/:slug/event/:eventSlug/categories', async (req: Request, res: Response) => {
+  try {
+    const { slug, eventSlug } = req.params;
+    const bustCache = req.query.refresh === 'true';
+
+    const response = await loadEventCategories(slug, eventSlug, { bustCache });
+
+    if (!response) {
+      return res.status(404).json({
+        error: `Event "${eventSlug}" not found in tournament "${slug}"`,
+        source: 'backend'
+      });
+    }
+
+    res.json(response);
+  } catch (error) {
+    console.error('Event categories error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to categorize players',
+      source: 'backend'
+    });
+  }
+});
+
+/**
+ * GET /api/tournament/:slug/progressive
+ * GET /api/tournament/:slug/event/:eventSlug/progressive
+ * Progressive tournament loading as newline-delimited JSON
+ * Streams the tournament skeleton and every bracket as soon as start.gg returns it,
+ * followed by a final `complete` message (see TournamentLoadMessage)
+ * Query params:
+ *   - refresh: boolean - force cache bypass
+ */
+tournamentRouter.get(['/:slug/progressive', '/:slug/event/:eventSlug/progressive'], async (req: Request, res: Response) => {
+  const { slug, eventSlug } = req.params;
+  const bustCache = req.query.refresh === 'true';
+
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson',
+    'Cache-Control': 'no-cache',
+    'X-Accel-Buffering': 'no', // Disable nginx response buffering
+  });
+
+  const send = (message: TournamentLoadMessage) => {
+    if (!res.writableEnded) {
+      res.write(`${JSON.stringify(message)}\n`);
+    }
+  };
+
+  let skeletonSent = false;
+
+  try {
+    const response = await loadTournament(slug, {
+      bustCache,
+      eventSlug,
+      onProgress: (progress) => send({ type: 'progress', progress }),
+      onBracketComplete: (tournament, event, bracket) => {
+        // First callback carries the tournament skeleton: every event, the first one with its structure
+        if (!skeletonSent) {
+          skeletonSent = true;
+          send({ type: 'tournament', tournament });
+        } else if (bracket) {
+          send({ type: 'bracket', eventId: event.id, bracket, participants: event.participants });
+        } else {
+          send({ type: 'event', event });
+        }
+      }
+    });
+
+    if (eventSlug && response.data.events.length === 0) {
+      send({ type: 'error', error: `Event "${eventSlug}" not found in tournament "${slug}"`, source: 'backend' });
+    } else {
+      send({ type: 'complete', response });
+    }
+  } catch (error) {
+    console.error('Progressive tournament load error:', error);
+    send({
+      type: 'error',
       error: error instanceof Error ? error.message : 'Failed to fetch tournament',
       source: 'backend'
     });
   }
+
+  res.end();
 });
 
 /**
@@ -81,40 +222,68 @@ tournamentRouter.get('/:slug', async (req: Request, res: Response) => {
 tournamentRouter.post('/:slug/refresh', async (req: Request, res: Response) => {
   try {
     const { slug } = req.params;
-    const cacheKey = `tournament:${slug}`;
 
     console.log(`[CACHE BUST] ${slug}`);
 
-    // Delete from cache
-    await cacheService.del(cacheKey);
+    // Fetch fresh data, overwriting every cached entry of the tournament
+    const response = await loadTournament(slug, { bustCache: true });
 
-    // Fetch fresh data
-    const tournament = await startGgApi.getTournamentBySlug(slug);
+    res.json(response);
+  } catch (error) {
+    console.error('Tournament refresh error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to refresh tournament',
+      source: 'backend'
+    });
+  }
+});
 
-    // Calculate dynamic TTL
-    const ttl = calculateDynamicTTL(tournament);
-    const matchMetadata = getMatchStateMetadata(tournament);
+/**
+ * GET /api/tournament/:slug/stream
+ * GET /api/tournament/:slug/event/:eventSlug/stream
+ * Server-Sent Events stream of tournament updates
+ * All dashboards watching the same slug (and event) share a single upstream poller
+ */
+tournamentRouter.get(['/:slug/stream', '/:slug/event/:eventSlug/stream'], (req: Request, res: Response) => {
+  const { slug, eventSlug } = req.params;
 
-    console.log(`[TTL] ${slug} -> ${ttl}s (refreshed)`);
+  tournamentStreamHub.subscribe(slug, res, eventSlug);
+});
 
-    // Cache the result
-    await cacheService.set(cacheKey, tournament, ttl);
+/**
+ * GET /api/tournament/:slug/changes
+ * Get changes detected between tournament snapshots
+ * Query params:
+ *   - since: number - Unix timestamp (ms), only return changes detected after it (default: 0)
+ */
+tournamentRouter.get('/:slug/changes', async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+    const since = req.query.since !== undefined ? Number(req.query.since) : 0;
 
-    const response: TournamentResponse = {
-      data: tournament,
-      cached: false,
-      metadata: {
-        cachedAt: Date.now(),
-        ttl,
-        ...matchMetadata
-      }
+    if (!Number.isFinite(since)) {
+      return res.status(400).json({
+        error: 'Query parameter "since" must be a Unix timestamp in milliseconds',
+        source: 'backend'
+      });
+    }
+
+    const changes = await getChangesSince(slug, since);
+
+    // The cursor is the newest change returned, so changes logged while this
+    // request ran come back on the next poll exactly once
+    const response: TournamentChangesResponse = {
+      slug,
+      since,
+      until: changes.reduce((latest, change) => Math.max(latest, change.detectedAt), since),
+      changes
     };
 
     res.json(response);
   } catch (error) {
-    console.error('Tournament refresh error:', error);
+    console.error('Tournament changes error:', error);
     res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to refresh tournament',
+      error: 'Failed to get tournament changes',
       source: 'backend'
     });
   }
@@ -123,19 +292,13 @@ tournamentRouter.post('/:slug/refresh', async (req: Request, res: Response) => {
 /**
  * GET /api/tournament/:slug/cache-status
  * Check if tournament is cached and get metadata
+ * Also lists the cached event and phase group entries with their own TTLs
  */
 tournamentRouter.get('/:slug/cache-status', async (req: Request, res: Response) => {
   try {
     const { slug } = req.params;
-    const cacheKey = `tournament:${slug}`;
-
-    const exists = await cacheService.exists(cacheKey);
-    const metadata = exists ? await cacheService.getMetadata(cacheKey) : null;
 
-    res.json({
-      cached: exists,
-      metadata
-    });
+    res.json(await getTournamentCacheStatus(slug));
   } catch (error) {
     console.error('Cache status check error:', error);
     res.status(500).json({
@@ -0,0 +1,71 @@
+import { Router, Request, Response } from 'express';
+import { tournamentWatcher } from '../watcher/TournamentWatcher';
+
+export const watchRouter = Router();
+
+/**
+ * GET /api/watch
+ * List watched tournaments
+ */
+watchRouter.get('/', (req: Request, res: Response) => {
+  res.json({
+    watches: tournamentWatcher.getWatches()
+  });
+});
+
+/**
+ * POST /api/watch/:slug
+ * Keep a tournament warm by refreshing it in the background
+ * Query params:
+ *   - hours: number - how long to keep watching (default: 12, max: 72)
+ */
+watchRouter.post('/:slug', (req: Request, res: Response) => {
+  const { slug } = req.params;
+  const hours = req.query.hours !== undefined ? Number(req.query.hours) : undefined;
+
+  if (hours !== undefined && (!Number.isFinite(hours) || hours <= 0 || hours > 72)) {
+    return res.status(400).json({
+      error: 'Query parameter "hours" must be a number between 0 and 72',
+      source: 'backend'
+    });
+  }
+
+  const watch = tournamentWatcher.watch(slug, hours);
+
+  res.status(201).json(watch);
+});
+
+/**
+ * GET /api/watch/:slug
+ * Get watch status for a tournament
+ */
+watchRouter.get('/:slug', (req: Request, res: Response) => {
+  const { slug } = req.params;
+  const watch = tournamentWatcher.getWatch(slug);
+
+  if (!watch) {
+    return res.status(404).json({
+      error: `Tournament "${slug}" is not being watched`,
+      source: 'backend'
+    });
+  }
+
+  res.json(watch);
+});
+
+/**
+ * DELETE /api/watch/:slug
+ * Stop watching a tournament
+ */
+watchRouter.delete('/:slug', (req: Request, res: Response) => {
+  const { slug } = req.params;
+
+  if (!tournamentWatcher.unwatch(slug)) {
+    return res.status(404).json({
+      error: `Tournament "${slug}" is not being watched`,
+      source: 'backend'
+    });
+  }
+
+  res.status(204).end();
+});
@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { cacheService } from '../cache';
+import { loadTournamentEvent } from './tournament-loader';
+import { getPlayerProfileCacheKey } from './player-profile';
+import { getPlayerRating } from './ratings';
+import { categorizePlayers, DEFAULT_CATEGORY_RULES } from '../utils/categorization';
+import type { CategoryRulesConfig } from '../utils/categorization';
+import type { EventCategoriesResponse, PlayerProfile, PlayerRating, TournamentEntry } from '@commentary/shared';
+
+let rulesConfig: Promise<CategoryRulesConfig> | undefined;
+
+/**
+ * Get the category rules, with the overrides from CATEGORY_RULES_FILE when set
+ *
+ * The file is JSON with any of the keys of CategoryRulesConfig - e.g.
+ * `{ "tiers": { "major": { "darkHorseMinSeed": 49 } }, "games": { "Tekken 8": { "losersRunMinWins": 2 } } }`.
+ * It's read once; a missing or invalid file falls back to the defaults.
+ */
+export function getCategoryRules(): Promise<CategoryRulesConfig> {
+  if (!rulesConfig) {
+    rulesConfig = readCategoryRules(process.env.CATEGORY_RULES_FILE);
+  }
+  return rulesConfig;
+}
+
+/**
+ * Load an event's players categorized by the category rules, with a reason for each category
+ *
+ * Categories are derived from the event's cached sets and the stored player
+ * ratings. Placement histories are only used for players whose profile is
+ * already cached - categorizing never fetches profiles.
+ *
+ * @returns Categories response, or null if the tournament has no such event
+ */
+export async function loadEventCategories(
+  slug: string,
+  eventSlug: string,
+  options: { bustCache?: boolean } = {}
+): Promise<EventCategoriesResponse | null> {
+  const response = await loadTournamentEvent(slug, eventSlug, options);
+  if (!response) {
+    return null;
+  }
+
+  const event = response.data.events[0];
+  const playerIds = event.participants
+    .map(player => player.startggId)
+    .filter((playerId): playerId is string => !!playerId);
+
+  const ratings = new Map<string, PlayerRating>();
+  const histories = new Map<string, TournamentEntry[]>();
+
+  await Promise.all(playerIds.map(async playerId => {
+    const rating = await getPlayerRating(playerId);
+    if (rating) {
+      ratings.set(playerId, rating);
+    }
+
+    const profile = await cacheService.getStale<PlayerProfile>(getPlayerProfileCacheKey(playerId));
+    if (profile) {
+      histories.set(playerId, profile.value.tournamentHistory);
+    }
+  }));
+
+  return {
+    data: categorizePlayers(event, ratings, histories, await getCategoryRules()),
+    cached: response.cached,
+    metadata: {
+      cachedAt: response.metadata.cachedAt,
+      ttl: response.metadata.ttl,
+      stale: response.metadata.stale
+    }
+  };
+}
+
+async function readCategoryRules(file?: string): Promise<CategoryRulesConfig> {
+  if (!file) {
+    return DEFAULT_CATEGORY_RULES;
+  }
+
+  try {
+    const overrides: Partial<CategoryRulesConfig> = JSON.parse(await fs.readFile(path.resolve(file), 'utf8'));
+    console.log(`[CATEGORIES] Loaded category rules from ${file}`);
+
+    return {
+      thresholds: { ...DEFAULT_CATEGORY_RULES.thresholds, ...overrides.thresholds },
+      tierEntrants: { ...DEFAULT_CATEGORY_RULES.tierEntrants, ...overrides.tierEntrants },
+      tiers: {
+        local: { ...DEFAULT_CATEGORY_RULES.tiers.local, ...overrides.tiers?.local },
+        regional: { ...DEFAULT_CATEGORY_RULES.tiers.regional, ...overrides.tiers?.regional },
+        major: { ...DEFAULT_CATEGORY_RULES.tiers.major, ...overrides.tiers?.major }
+      },
+      games: { ...DEFAULT_CATEGORY_RULES.games, ...overrides.games }
+    };
+  } catch (error) {
+    console.error(`[CATEGORIES] Failed to read category rules from ${file}, using defaults:`, error);
+    return DEFAULT_CATEGORY_RULES;
+  }
+}
@@ -0,0 +1,82 @@
+import { cacheService } from '../cache';
+import { diffTournaments } from '../utils/tournament-diff';
+import { SerialQueue } from '../utils/serial-queue';
+import type { Tournament, TournamentChange } from '@commentary/shared';
+
+const SNAPSHOT_TTL = 24 * 60 * 60; // 24 hours - survives tournament cache expiry
+const CHANGE_LOG_TTL = 24 * 60 * 60; // 24 hours
+const MAX_CHANGES = 500; // Oldest changes are dropped beyond this
+
+// A background revalidation and a foreground load of the same slug can finish
+// together - each snapshot must see the one before it
+const snapshotQueue = new SerialQueue();
+
+function getSnapshotKey(slug: string): string {
+  return `snapshot:${slug}`;
+}
+
+function getChangeLogKey(slug: string): string {
+  return `changes:${slug}`;
+}
+
+/**
+ * Diff a freshly fetched tournament against the previous snapshot and
+ * append any changes to the tournament's change log
+ *
+ * The first snapshot for a slug only establishes the baseline, and so does the
+ * first snapshot of each event. Events missing from `tournament` (e.g. an
+ * event-scoped load) keep their previous snapshot.
+ *
+ * @returns Changes detected in this snapshot
+ */
+export async function recordTournamentSnapshot(slug: string, tournament: Tournament): Promise<TournamentChange[]> {
+  return snapshotQueue.run(slug, () => recordSnapshot(slug, tournament));
+}
+
+/**
+ * Get changes detected after the given timestamp (ms)
+ */
+export async function getChangesSince(slug: string, since: number): Promise<TournamentChange[]> {
+  const changeLog = await cacheService.get<TournamentChange[]>(getChangeLogKey(slug)) || [];
+  return changeLog.filter(change => change.detectedAt > since);
+}
+
+async function recordSnapshot(slug: string, tournament: Tournament): Promise<TournamentChange[]> {
+  const previous = await cacheService.get<Tournament>(getSnapshotKey(slug));
+  await cacheService.set(getSnapshotKey(slug), mergeSnapshots(previous, tournament), SNAPSHOT_TTL);
+
+  if (!previous) {
+    return [];
+  }
+
+  const previousEventIds = new Set(previous.events.map(event => event.id));
+  const changes = diffTournaments(previous, {
+    ...tournament,
+    events: tournament.events.filter(event => previousEventIds.has(event.id))
+  });
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const changeLog = await cacheService.get<TournamentChange[]>(getChangeLogKey(slug)) || [];
+  const updatedLog = [...changeLog, ...changes].slice(-MAX_CHANGES);
+  await cacheService.set(getChangeLogKey(slug), updatedLog, CHANGE_LOG_TTL);
+
+  console.log(`[CHANGES] ${slug} -> ${changes.length} change(s) detected`);
+
+  return changes;
+}
+
+function mergeSnapshots(previous: Tournament | null, tournament: Tournament): Tournament {
+  if (!previous) {
+    return tournament;
+  }
+
+  const loadedEventIds = new Set(tournament.events.map(event => event.id));
+  const carriedOver = previous.events.filter(event => !loadedEventIds.has(event.id));
+
+  return {
+    ...tournament,
+    events: [...tournament.events, ...carriedOver]
+  };
+}
@@ -0,0 +1,112 @@
+import { startGgApi } from '../startgg';
+import { cacheService } from '../cache';
+import { SingleFlight } from '../utils/single-flight';
+import { loadTournamentEvent } from './tournament-loader';
+import { aggregateCharacterUsage, calculateEventCharacterStats } from '../utils/character-stats';
+import type {
+  EventCharacterStatsResponse,
+  PlayerCharacterStats,
+  PlayerCharacterHistoryResponse
+} from '@commentary/shared';
+
+// A player's recent sets only change when they play
+const PLAYER_CHARACTERS_TTL = 6 * 60 * 60; // 6 hours
+
+// Concurrent misses for the same player share one start.gg fetch
+const characterFetches = new SingleFlight<PlayerCharacterHistoryResponse | null>();
+
+/**
+ * Cache key for a player's character history
+ */
+export function getPlayerCharactersCacheKey(playerId: string): string {
+  return `player:${playerId}:characters`;
+}
+
+/**
+ * Load an event's character representation and win rates, and every player's picks
+ *
+ * Stats are derived from the event's cached sets, so they share the event's
+ * cache entries and TTLs.
+ *
+ * @returns Stats response, or null if the tournament has no such event
+ */
+export async function loadEventCharacterStats(
+  slug: string,
+  eventSlug: string,
+  options: { bustCache?: boolean } = {}
+): Promise<EventCharacterStatsResponse | null> {
+  const response = await loadTournamentEvent(slug, eventSlug, options);
+  if (!response) {
+    return null;
+  }
+
+  return {
+    data: calculateEventCharacterStats(response.data.events[0]),
+    cached: response.cached,
+    metadata: {
+      cachedAt: response.metadata.cachedAt,
+      ttl: response.metadata.ttl,
+      stale: response.metadata.stale
+    }
+  };
+}
+
+/**
+ * Load the characters a player picked across their recent sets
+ * @param playerId - start.gg player id (Player.startggId)
+ * @returns Character history response, or null if start.gg has no such player
+ */
+export async function loadPlayerCharacterHistory(
+  playerId: string,
+  options: { bustCache?: boolean } = {}
+): Promise<PlayerCharacterHistoryResponse | null> {
+  const cacheKey = getPlayerCharactersCacheKey(playerId);
+
+  if (!options.bustCache) {
+    const entry = await cacheService.getStale<PlayerCharacterStats>(cacheKey);
+
+    if (entry && !entry.stale) {
+      console.log(`[CACHE HIT] ${cacheKey}`);
+
+      return {
+        data: entry.value,
+        cached: true,
+        metadata: {
+          cachedAt: entry.metadata.createdAt,
+          ttl: entry.metadata.ttl
+        }
+      };
+    }
+  }
+
+  if (characterFetches.isInFlight(cacheKey)) {
+    console.log(`[COALESCED] ${cacheKey} joining in-flight fetch`);
+  } else {
+    console.log(`[CACHE MISS] ${cacheKey} (refresh: ${!!options.bustCache})`);
+  }
+
+  return characterFetches.do(cacheKey, async () => {
+    const history = await startGgApi.getPlayerCharacterGames(playerId);
+    if (!history) {
+      return null;
+    }
+
+    const stats: PlayerCharacterStats = {
+      playerId,
+      tag: history.tag,
+      games: history.games.length,
+      characters: aggregateCharacterUsage(history.games)
+    };
+
+    await cacheService.set(cacheKey, stats, PLAYER_CHARACTERS_TTL);
+
+    return {
+      data: stats,
+      cached: false,
+      metadata: {
+        cachedAt: Date.now(),
+        ttl: PLAYER_CHARACTERS_TTL
+      }
+    };
+  });
+}
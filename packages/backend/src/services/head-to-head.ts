@@ -0,0 +1,95 @@
+import { startGgApi } from '../startgg';
+import { cacheService } from '../cache';
+import { SingleFlight } from '../utils/single-flight';
+import type { HeadToHeadRecord, HeadToHeadResponse } from '@commentary/shared';
+
+// Records only change when the two players meet again
+const HEAD_TO_HEAD_TTL = 60 * 60; // 1 hour
+
+// Concurrent misses for the same pairing share one start.gg fetch
+const headToHeadFetches = new SingleFlight<HeadToHeadResponse>();
+
+/**
+ * Cache key for a pairing - the same for A vs B and B vs A
+ */
+export function getHeadToHeadCacheKey(playerAId: string, playerBId: string): string {
+  const [first, second] = [playerAId, playerBId].sort();
+  return `h2h:${first}:${second}`;
+}
+
+/**
+ * Load the set record between two players
+ * @param playerAId - start.gg player id (Player.startggId)
+ * @param playerBId - start.gg player id (Player.startggId)
+ * @returns Record oriented as requested (playerA first)
+ */
+export async function loadHeadToHead(
+  playerAId: string,
+  playerBId: string,
+  options: { bustCache?: boolean } = {}
+): Promise<HeadToHeadResponse> {
+  const cacheKey = getHeadToHeadCacheKey(playerAId, playerBId);
+
+  if (!options.bustCache) {
+    const entry = await cacheService.getStale<HeadToHeadRecord>(cacheKey);
+
+    if (entry && !entry.stale) {
+      console.log(`[CACHE HIT] ${cacheKey}`);
+
+      return {
+        data: orientRecord(entry.value, playerAId),
+        cached: true,
+        metadata: {
+          cachedAt: entry.metadata.createdAt,
+          ttl: entry.metadata.ttl
+        }
+      };
+    }
+  }
+
+  if (headToHeadFetches.isInFlight(cacheKey)) {
+    console.log(`[COALESCED] ${cacheKey} joining in-flight fetch`);
+  } else {
+    console.log(`[CACHE MISS] ${cacheKey} (refresh: ${!!options.bustCache})`);
+  }
+
+  // Always fetch in key order so both orientations share the result
+  const response = await headToHeadFetches.do(cacheKey, async () => {
+    const [first, second] = [playerAId, playerBId].sort();
+    const record = await startGgApi.getHeadToHead(first, second);
+
+    await cacheService.set(cacheKey, record, HEAD_TO_HEAD_TTL);
+
+    return {
+      data: record,
+      cached: false,
+      metadata: {
+        cachedAt: Date.now(),
+        ttl: HEAD_TO_HEAD_TTL
+      }
+    };
+  });
+
+  return { ...response, data: orientRecord(response.data, playerAId) };
+}
+
+/**
+ * Swap sides of a record so `playerAId` comes first
+ */
+function orientRecord(record: HeadToHeadRecord, playerAId: string): HeadToHeadRecord {
+  if (record.playerAId === playerAId) {
+    return record;
+  }
+
+  return {
+    playerAId: record.playerBId,
+    playerBId: record.playerAId,
+    playerAWins: record.playerBWins,
+    playerBWins: record.playerAWins,
+    sets: record.sets.map(set => ({
+      ...set,
+      playerAScore: set.playerBScore,
+      playerBScore: set.playerAScore
+    }))
+  };
+}
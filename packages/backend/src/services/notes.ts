@@ -0,0 +1,74 @@
+import { randomUUID } from 'crypto';
+import { dataStore } from '../store';
+import type { Note, NoteInput } from '@commentary/shared';
+
+function getNotesCollection(slug: string): string {
+  return `notes:${slug}`;
+}
+
+/**
+ * List a tournament's notes, optionally only those about a player and/or match
+ */
+export async function listNotes(
+  slug: string,
+  filter: { playerId?: string; matchId?: string } = {}
+): Promise<Note[]> {
+  const notes = await dataStore.list<Note>(getNotesCollection(slug));
+
+  return notes
+    .filter(note => !filter.playerId || note.playerId === filter.playerId)
+    .filter(note => !filter.matchId || note.matchId === filter.matchId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Add a note to a tournament
+ */
+export async function createNote(slug: string, input: NoteInput): Promise<Note> {
+  const now = Date.now();
+  const note: Note = {
+    id: randomUUID(),
+    tournamentSlug: slug,
+    playerId: input.playerId,
+    matchId: input.matchId,
+    text: input.text,
+    author: input.author,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await dataStore.put(getNotesCollection(slug), note.id, note);
+  console.log(`[NOTES] ${slug} note ${note.id} added`);
+
+  return note;
+}
+
+/**
+ * Replace a note's text
+ * @returns Updated note, or null if the tournament has no such note
+ */
+export async function updateNote(slug: string, id: string, text: string): Promise<Note | null> {
+  const collection = getNotesCollection(slug);
+  const existing = await dataStore.get<Note>(collection, id);
+  if (!existing) {
+    return null;
+  }
+
+  const note: Note = { ...existing, text, updatedAt: Date.now() };
+  await dataStore.put(collection, id, note);
+
+  return note;
+}
+
+/**
+ * Delete a note
+ * @returns True if the note existed
+ */
+export async function deleteNote(slug: string, id: string): Promise<boolean> {
+  const deleted = await dataStore.delete(getNotesCollection(slug), id);
+  if (deleted) {
+    console.log(`[NOTES] ${slug} note ${id} deleted`);
+  }
+
+  return deleted;
+}
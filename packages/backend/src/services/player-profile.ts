@@ -0,0 +1,78 @@
+import { startGgApi } from '../startgg';
+import { cacheService } from '../cache';
+import { SingleFlight } from '../utils/single-flight';
+import { seedRatingFromProfile } from './ratings';
+import type { PlayerProfile, PlayerProfileResponse } from '@commentary/shared';
+
+// Placements only change when a tournament ends
+const PLAYER_PROFILE_TTL = 6 * 60 * 60; // 6 hours
+
+// Concurrent misses for the same player share one start.gg fetch
+const profileFetches = new SingleFlight<PlayerProfileResponse | null>();
+
+/**
+ * Cache key for a player's profile
+ */
+export function getPlayerProfileCacheKey(playerId: string): string {
+  return `player:${playerId}`;
+}
+
+/**
+ * Load a player's cross-tournament history and achievements
+ * @param playerId - start.gg player id (Player.startggId)
+ * @returns Profile response, or null if start.gg has no such player
+ */
+export async function loadPlayerProfile(
+  playerId: string,
+  options: { bustCache?: boolean } = {}
+): Promise<PlayerProfileResponse | null> {
+  const cacheKey = getPlayerProfileCacheKey(playerId);
+
+  if (!options.bustCache) {
+    const entry = await cacheService.getStale<PlayerProfile>(cacheKey);
+
+    if (entry && !entry.stale) {
+      console.log(`[CACHE HIT] ${cacheKey}`);
+
+      return {
+        data: entry.value,
+        cached: true,
+        metadata: {
+          cachedAt: entry.metadata.createdAt,
+          ttl: entry.metadata.ttl
+        }
+      };
+    }
+  }
+
+  if (profileFetches.isInFlight(cacheKey)) {
+    console.log(`[COALESCED] ${cacheKey} joining in-flight fetch`);
+  } else {
+    console.log(`[CACHE MISS] ${cacheKey} (refresh: ${!!options.bustCache})`);
+  }
+
+  return profileFetches.do(cacheKey, async () => {
+    const profile = await startGgApi.getPlayerHistory(playerId);
+    if (!profile) {
+      return null;
+    }
+
+    await cacheService.set(cacheKey, profile, PLAYER_PROFILE_TTL);
+
+    // Players new to the rating pool start from their placements
+    try {
+      await seedRatingFromProfile(profile);
+    } catch (error) {
+      console.error(`[RATINGS] Failed to seed rating for player ${playerId}:`, error);
+    }
+
+    return {
+      data: profile,
+      cached: false,
+      metadata: {
+        cachedAt: Date.now(),
+        ttl: PLAYER_PROFILE_TTL
+      }
+    };
+  });
+}
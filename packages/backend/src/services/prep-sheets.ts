@@ -0,0 +1,53 @@
+import { dataStore } from '../store';
+import type { PrepSheet, PrepSheetInput } from '@commentary/shared';
+
+function getPrepSheetsCollection(slug: string): string {
+  return `prep:${slug}`;
+}
+
+/**
+ * List a tournament's prep sheets
+ */
+export async function listPrepSheets(slug: string): Promise<PrepSheet[]> {
+  return dataStore.list<PrepSheet>(getPrepSheetsCollection(slug));
+}
+
+/**
+ * Get a player's prep sheet
+ * @returns Prep sheet, or null if nobody prepped the player yet
+ */
+export async function getPrepSheet(slug: string, playerId: string): Promise<PrepSheet | null> {
+  return dataStore.get<PrepSheet>(getPrepSheetsCollection(slug), playerId);
+}
+
+/**
+ * Create or update a player's prep sheet
+ * Fields left out of `input` keep their current value
+ */
+export async function savePrepSheet(slug: string, playerId: string, input: PrepSheetInput): Promise<PrepSheet> {
+  const collection = getPrepSheetsCollection(slug);
+  const existing = await dataStore.get<PrepSheet>(collection, playerId);
+
+  const sheet: PrepSheet = {
+    tournamentSlug: slug,
+    playerId,
+    storyline: input.storyline ?? existing?.storyline,
+    pronunciation: input.pronunciation ?? existing?.pronunciation,
+    talkingPoints: input.talkingPoints ?? existing?.talkingPoints ?? [],
+    updatedAt: Date.now(),
+    updatedBy: input.updatedBy ?? existing?.updatedBy
+  };
+
+  await dataStore.put(collection, playerId, sheet);
+  console.log(`[PREP] ${slug} prep sheet for player ${playerId} saved`);
+
+  return sheet;
+}
+
+/**
+ * Delete a player's prep sheet
+ * @returns True if the prep sheet existed
+ */
+export async function deletePrepSheet(slug: string, playerId: string): Promise<boolean> {
+  return dataStore.delete(getPrepSheetsCollection(slug), playerId);
+}
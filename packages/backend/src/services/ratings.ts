@@ -0,0 +1,202 @@
+import { dataStore } from '../store';
+import { SingleFlight } from '../utils/single-flight';
+import { SerialQueue } from '../utils/serial-queue';
+import { getUniqueMatches } from '../utils/matches';
+import { createRating, updateRating, getWinProbability, DEFAULT_RATING } from '../utils/rating';
+import type { RatedResult } from '../utils/rating';
+import type { Tournament, TournamentEvent, Match, Player, PlayerRating, PlayerProfile } from '@commentary/shared';
+
+/**
+ * Set ids of an event that were already rated
+ */
+interface RatedEvent {
+  eventId: string;
+  setIds: string[];
+  updatedAt: number;
+}
+
+// Ratings are per player, across tournaments
+const RATINGS_COLLECTION = 'ratings';
+const RATED_EVENTS_COLLECTION = 'ratings:events';
+
+// Placement-based ratings are only a first guess - keep them less certain than rated ones
+const SEEDED_DEVIATION = 250;
+const SEEDED_RATING_SPREAD = 800;
+
+// Concurrent assemblies of the same event rate its new sets once
+const eventRatings = new SingleFlight<number>();
+
+// Rating an event and seeding a player read ratings and write them back -
+// writes to the ratings collection run one at a time so none is lost
+const ratingWrites = new SerialQueue();
+
+/**
+ * Get a player's rating
+ * @param playerId - start.gg player id (Player.startggId)
+ * @returns Rating, or null if none of the player's sets were rated yet
+ */
+export async function getPlayerRating(playerId: string): Promise<PlayerRating | null> {
+  return dataStore.get<PlayerRating>(RATINGS_COLLECTION, playerId);
+}
+
+/**
+ * Rate the completed sets of a tournament's events that weren't rated yet
+ */
+export async function rateTournament(tournament: Tournament): Promise<void> {
+  for (const event of tournament.events) {
+    await eventRatings.do(event.id, () => ratingWrites.run(RATINGS_COLLECTION, () => rateEvent(event)));
+  }
+}
+
+/**
+ * Predict the winner of every pending and in-progress set of an assembled tournament
+ *
+ * Sets are shared with the cache, so predicted sets are copies: the events'
+ * brackets and current matches are replaced, never changed in place.
+ * Sets with an unrated player are left without a prediction.
+ */
+export async function attachWinProbabilities(tournament: Tournament): Promise<void> {
+  const ratings = new Map(
+    (await dataStore.list<PlayerRating>(RATINGS_COLLECTION)).map(rating => [rating.playerId, rating])
+  );
+
+  for (const event of tournament.events) {
+    const predicted = new Map<string, Match>();
+
+    event.brackets = event.brackets.map(bracket => ({
+      ...bracket,
+      matches: bracket.matches.map(match => {
+        const prediction = predictMatch(match, ratings);
+        predicted.set(match.id, prediction);
+        return prediction;
+      })
+    }));
+    event.currentMatches = event.currentMatches.map(match => predicted.get(match.id) ?? match);
+  }
+}
+
+/**
+ * Give a player without a rating a starting rating from their recent placements
+ *
+ * A player who keeps placing high in big brackets starts above 1500, one who
+ * places low starts below. Ratings from sets always win over this guess.
+ */
+export async function seedRatingFromProfile(profile: PlayerProfile): Promise<PlayerRating | null> {
+  return ratingWrites.run(RATINGS_COLLECTION, () => seedRating(profile));
+}
+
+async function seedRating(profile: PlayerProfile): Promise<PlayerRating | null> {
+  if (await getPlayerRating(profile.id)) {
+    return null;
+  }
+
+  // Placement on a log scale: winning is 1, last place is 0
+  const percentiles = profile.tournamentHistory
+    .filter(entry => entry.participants > 1 && entry.placement > 0)
+    .map(entry => 1 - Math.min(1, Math.log2(entry.placement) / Math.log2(entry.participants)));
+
+  if (percentiles.length === 0) {
+    return null;
+  }
+
+  const average = percentiles.reduce((sum, percentile) => sum + percentile, 0) / percentiles.length;
+  const rating: PlayerRating = {
+    ...createRating(profile.id, profile.tag),
+    rating: DEFAULT_RATING + (average - 0.5) * SEEDED_RATING_SPREAD,
+    deviation: SEEDED_DEVIATION
+  };
+
+  await dataStore.put(RATINGS_COLLECTION, profile.id, rating);
+  console.log(`[RATINGS] ${profile.tag} seeded at ${Math.round(rating.rating)} from ${percentiles.length} placements`);
+
+  return rating;
+}
+
+/**
+ * Rate an event's completed sets that weren't rated yet
+ *
+ * All of them form one Glicko-2 rating period, so on the first load of a
+ * finished event the whole event is one period, as the system intends.
+ *
+ * @returns Number of sets rated
+ */
+async function rateEvent(event: TournamentEvent): Promise<number> {
+  const ratedEvent = await dataStore.get<RatedEvent>(RATED_EVENTS_COLLECTION, event.id);
+  const ratedSetIds = new Set(ratedEvent?.setIds || []);
+
+  const sets = getUniqueMatches(event).filter(match => !ratedSetIds.has(match.id) && isRateable(match));
+  if (sets.length === 0) {
+    return 0;
+  }
+
+  // Everyone is rated against their opponents' ratings from before the period
+  const ratings = new Map<string, PlayerRating>();
+  const results = new Map<string, RatedResult[]>();
+
+  for (const set of sets) {
+    const player1 = await loadRating(set.player1!, ratings);
+    const player2 = await loadRating(set.player2!, ratings);
+    const player1Won = set.winner!.id === set.player1!.id;
+
+    addResult(results, player1.playerId, { opponent: player2, score: player1Won ? 1 : 0 });
+    addResult(results, player2.playerId, { opponent: player1, score: player1Won ? 0 : 1 });
+  }
+
+  const updated = new Map<string, PlayerRating>();
+  for (const [playerId, playerResults] of results) {
+    updated.set(playerId, updateRating(ratings.get(playerId)!, playerResults));
+  }
+  await dataStore.putMany(RATINGS_COLLECTION, updated);
+
+  sets.forEach(set => ratedSetIds.add(set.id));
+  await dataStore.put(RATED_EVENTS_COLLECTION, event.id, {
+    eventId: event.id,
+    setIds: Array.from(ratedSetIds),
+    updatedAt: Date.now()
+  });
+
+  console.log(`[RATINGS] ${event.name}: rated ${sets.length} sets for ${results.size} players`);
+  return sets.length;
+}
+
+/**
+ * Copy of a set with its predicted winner, or the set itself if it can't be predicted
+ */
+function predictMatch(match: Match, ratings: Map<string, PlayerRating>): Match {
+  if (match.status === 'completed' || !match.player1?.startggId || !match.player2?.startggId) {
+    return match;
+  }
+
+  const player1 = ratings.get(match.player1.startggId);
+  const player2 = ratings.get(match.player2.startggId);
+  if (!player1 || !player2) {
+    return match;
+  }
+
+  return { ...match, winProbability: getWinProbability(player1, player2) };
+}
+
+async function loadRating(player: Player, ratings: Map<string, PlayerRating>): Promise<PlayerRating> {
+  const playerId = player.startggId!;
+  const loaded = ratings.get(playerId) || await getPlayerRating(playerId) || createRating(playerId, player.tag);
+  ratings.set(playerId, loaded);
+  return loaded;
+}
+
+function addResult(results: Map<string, RatedResult[]>, playerId: string, result: RatedResult): void {
+  const playerResults = results.get(playerId) || [];
+  playerResults.push(result);
+  results.set(playerId, playerResults);
+}
+
+/**
+ * Completed sets between two known players that were actually played
+ */
+function isRateable(match: Match): boolean {
+  if (match.status !== 'completed' || !match.winner || !match.player1?.startggId || !match.player2?.startggId) {
+    return false;
+  }
+
+  // start.gg reports a DQ as a score of -1
+  return !match.score || (match.score.player1Score >= 0 && match.score.player2Score >= 0);
+}
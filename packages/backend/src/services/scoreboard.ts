@@ -0,0 +1,118 @@
+import { dataStore } from '../store';
+import { loadTournamentEvent } from './tournament-loader';
+import type {
+  Match,
+  Scoreboard,
+  ScoreboardOverride,
+  ScoreboardState,
+  ScoreboardUpdate,
+  TournamentEvent
+} from '@commentary/shared';
+
+function getScoreboardCollection(slug: string): string {
+  return `scoreboard:${slug}`;
+}
+
+/**
+ * Get an event's scoreboard with the selected set as start.gg reports it
+ * and as overlays should show it
+ *
+ * Once start.gg reports the selected set completed, its result is
+ * authoritative and the override is dropped.
+ *
+ * @returns Scoreboard, or null if the tournament has no such event
+ */
+export async function getScoreboard(slug: string, eventSlug: string): Promise<Scoreboard | null> {
+  const response = await loadTournamentEvent(slug, eventSlug);
+  if (!response) {
+    return null;
+  }
+
+  const state = await dataStore.get<ScoreboardState>(getScoreboardCollection(slug), eventSlug) || { updatedAt: 0 };
+
+  return resolveScoreboard(slug, eventSlug, response.data.events[0], state);
+}
+
+/**
+ * Select the scoreboard's set and/or override what overlays show
+ * @returns Updated scoreboard, or null if the tournament has no such event
+ */
+export async function updateScoreboard(
+  slug: string,
+  eventSlug: string,
+  update: ScoreboardUpdate
+): Promise<Scoreboard | null> {
+  const response = await loadTournamentEvent(slug, eventSlug);
+  if (!response) {
+    return null;
+  }
+
+  const previous = await dataStore.get<ScoreboardState>(getScoreboardCollection(slug), eventSlug) || { updatedAt: 0 };
+  const state: ScoreboardState = { ...previous, updatedAt: Date.now() };
+
+  if (update.matchId !== undefined && update.matchId !== previous.matchId) {
+    // An override belongs to the set it was made for
+    state.matchId = update.matchId ?? undefined;
+    state.override = undefined;
+  }
+
+  if (update.override !== undefined) {
+    state.override = update.override ?? undefined;
+  }
+
+  await dataStore.put(getScoreboardCollection(slug), eventSlug, state);
+  console.log(`[SCOREBOARD] ${slug}/${eventSlug} updated (set: ${state.matchId ?? 'none'}, override: ${!!state.override})`);
+
+  return resolveScoreboard(slug, eventSlug, response.data.events[0], state);
+}
+
+async function resolveScoreboard(
+  slug: string,
+  eventSlug: string,
+  event: TournamentEvent,
+  state: ScoreboardState
+): Promise<Scoreboard> {
+  const match = state.matchId ? findMatch(event, state.matchId) : undefined;
+
+  if (state.override && match?.status === 'completed') {
+    state = { matchId: state.matchId, updatedAt: Date.now() };
+    await dataStore.put(getScoreboardCollection(slug), eventSlug, state);
+
+    console.log(`[SCOREBOARD] ${slug}/${eventSlug} override cleared, set ${match.id} completed`);
+  }
+
+  return {
+    ...state,
+    match,
+    display: match && applyOverride(match, state.override)
+  };
+}
+
+function findMatch(event: TournamentEvent, matchId: string): Match | undefined {
+  return event.brackets
+    .flatMap(bracket => bracket.matches)
+    .find(match => match.id === matchId);
+}
+
+function applyOverride(match: Match, override: ScoreboardOverride | undefined): Match {
+  if (!override) {
+    return match;
+  }
+
+  return {
+    ...match,
+    round: override.round ?? match.round,
+    player1: override.player1Tag !== undefined
+      ? { id: match.player1?.id || 'override-player1', ...match.player1, tag: override.player1Tag }
+      : match.player1,
+    player2: override.player2Tag !== undefined
+      ? { id: match.player2?.id || 'override-player2', ...match.player2, tag: override.player2Tag }
+      : match.player2,
+    score: override.player1Score !== undefined || override.player2Score !== undefined
+      ? {
+        player1Score: override.player1Score ?? match.score?.player1Score ?? 0,
+        player2Score: override.player2Score ?? match.score?.player2Score ?? 0
+      }
+      : match.score
+  };
+}
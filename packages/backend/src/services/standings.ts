@@ -0,0 +1,32 @@
+import { loadTournamentEvent } from './tournament-loader';
+import { calculateStandings } from '../utils/standings';
+import type { EventStandingsResponse } from '@commentary/shared';
+
+/**
+ * Load the final and projected placements of an event
+ *
+ * Standings are derived from the event's cached sets, so they share the
+ * event's cache entries and TTLs.
+ *
+ * @returns Standings response, or null if the tournament has no such event
+ */
+export async function loadEventStandings(
+  slug: string,
+  eventSlug: string,
+  options: { bustCache?: boolean } = {}
+): Promise<EventStandingsResponse | null> {
+  const response = await loadTournamentEvent(slug, eventSlug, options);
+  if (!response) {
+    return null;
+  }
+
+  return {
+    data: calculateStandings(response.data.events[0]),
+    cached: response.cached,
+    metadata: {
+      cachedAt: response.metadata.cachedAt,
+      ttl: response.metadata.ttl,
+      stale: response.metadata.stale
+    }
+  };
+}
@@ -0,0 +1,519 @@
+import { startGgApi } from '../startgg';
+import { cacheService } from '../cache';
+import {
+  calculatePhaseGroupTTL,
+  calculateEventTTL,
+  calculateTournamentMetadataTTL,
+  calculateStreamQueueTTL,
+  getMatchStateMetadata
+} from '../utils/ttl-calculator';
+import { SingleFlight } from '../utils/single-flight';
+import { recordTournamentSnapshot } from './change-log';
+import { rateTournament, attachWinProbabilities } from './ratings';
+import type { StaleCacheEntry } from '../cache';
+import type {
+  Tournament,
+  TournamentEvent,
+  TournamentResponse,
+  Bracket,
+  Match,
+  StreamQueue,
+  CacheMetadata,
+  ProgressUpdate
+} from '@commentary/shared';
+
+export interface LoadTournamentOptions {
+  /** Skip the cache lookup and always fetch from start.gg */
+  bustCache?: boolean;
+  /** Serve expired entries immediately while refreshing in the background (default: true) */
+  allowStale?: boolean;
+  /** Also refresh entries that expire within this many seconds */
+  refreshAheadSeconds?: number;
+  /** Only assemble the event with this slug - other events are left out of the response */
+  eventSlug?: string;
+  /** Called as the tournament is assembled */
+  onProgress?: (progress: ProgressUpdate) => void;
+  /** Called after each event structure and bracket is assembled */
+  onBracketComplete?: (tournament: Tournament, event: TournamentEvent, bracket?: Bracket) => void;
+}
+
+export interface TournamentCacheStatus {
+  cached: boolean;
+  metadata: CacheMetadata | null;
+  /** Event, phase group and stream queue entries currently cached for the tournament */
+  entries: CacheMetadata[];
+}
+
+/**
+ * What an assembly read from cache and fetched from start.gg
+ */
+interface AssemblyState {
+  fetched: number;
+  stale: boolean;
+  partial: boolean; // An event or phase group failed to load and is missing from the result
+  cachedAt: number; // Oldest entry used
+  ttl: number; // Shortest remaining TTL of the entries used (seconds)
+}
+
+// How long an expired entry can still be served while it's being refreshed
+const STALE_TTL = 60 * 60; // 1 hour
+
+// Concurrent misses for the same cache key share one start.gg fetch
+const entryFetches = new SingleFlight<unknown>();
+
+// Background revalidations of the same tournament share one run
+const tournamentRevalidations = new SingleFlight<TournamentResponse>();
+
+/**
+ * Cache key for tournament metadata (name, url, event list)
+ */
+export function getTournamentCacheKey(slug: string): string {
+  return `tournament:${slug}`;
+}
+
+/**
+ * Cache key for an event's structure (bracket list, entrants)
+ */
+export function getEventCacheKey(slug: string, eventId: string): string {
+  return `tournament:${slug}:event:${eventId}`;
+}
+
+/**
+ * Cache key for a phase group and its matches
+ */
+export function getPhaseGroupCacheKey(slug: string, phaseGroupId: string): string {
+  return `tournament:${slug}:phase-group:${phaseGroupId}`;
+}
+
+/**
+ * Cache key for a tournament's stream queues
+ */
+export function getStreamQueueCacheKey(slug: string): string {
+  return `tournament:${slug}:stream-queue`;
+}
+
+/**
+ * Load a tournament with smart caching
+ *
+ * The tournament is assembled from separate cache entries for its metadata,
+ * each event and each phase group, each with a TTL derived from its own match
+ * states - a live pool no longer forces a refetch of every finished one.
+ * Expired entries are served stale (flagged in metadata) while a background
+ * refresh fetches just those entries.
+ */
+export async function loadTournament(slug: string, options: LoadTournamentOptions = {}): Promise<TournamentResponse> {
+  const response = await assembleTournament(slug, options);
+
+  if (response.metadata.stale) {
+    console.log(`[STALE] ${slug} serving stale data, revalidating in background`);
+
+    response.metadata.revalidating = true;
+    revalidateTournament(slug, { eventSlug: options.eventSlug })
+      .catch(error => console.error(`[STALE] Background refresh failed for ${slug}:`, error));
+  }
+
+  return response;
+}
+
+/**
+ * Load a single event of a tournament, leaving the other events' brackets
+ * and sets alone
+ *
+ * @param eventSlug - Event slug as it appears in start.gg URLs (e.g. "tekken-8-singles")
+ * @returns Tournament response with only that event, or null if the tournament has no such event
+ */
+export async function loadTournamentEvent(
+  slug: string,
+  eventSlug: string,
+  options: LoadTournamentOptions = {}
+): Promise<TournamentResponse | null> {
+  const response = await loadTournament(slug, { ...options, eventSlug });
+  return response.data.events.length > 0 ? response : null;
+}
+
+/**
+ * Refresh the expired entries of a tournament now, never serving stale data
+ *
+ * Joins a revalidation already in flight for the slug (and event).
+ */
+export async function revalidateTournament(
+  slug: string,
+  options: Pick<LoadTournamentOptions, 'refreshAheadSeconds' | 'eventSlug'> = {}
+): Promise<TournamentResponse> {
+  const key = options.eventSlug ? `${slug}/event/${options.eventSlug}` : slug;
+  return tournamentRevalidations.do(key, () => assembleTournament(slug, { ...options, allowStale: false }));
+}
+
+/**
+ * Get the cache state of a tournament's metadata, event and phase group entries
+ */
+export async function getTournamentCacheStatus(slug: string): Promise<TournamentCacheStatus> {
+  const tournament = await cacheService.getStale<Tournament>(getTournamentCacheKey(slug));
+  const entries: CacheMetadata[] = [];
+
+  for (const metaEvent of tournament?.value.events || []) {
+    const event = await cacheService.getStale<TournamentEvent>(getEventCacheKey(slug, metaEvent.id));
+    if (!event) {
+      continue;
+    }
+    entries.push(event.metadata);
+
+    for (const bracket of event.value.brackets) {
+      const phaseGroupMetadata = await cacheService.getMetadata(getPhaseGroupCacheKey(slug, bracket.id));
+      if (phaseGroupMetadata) {
+        entries.push(phaseGroupMetadata);
+      }
+    }
+  }
+
+  const streamQueueMetadata = await cacheService.getMetadata(getStreamQueueCacheKey(slug));
+  if (streamQueueMetadata) {
+    entries.push(streamQueueMetadata);
+  }
+
+  return {
+    cached: !!tournament && !tournament.stale,
+    metadata: tournament?.metadata || null,
+    entries
+  };
+}
+
+/**
+ * Assemble a tournament from its cached entries, fetching the missing ones
+ */
+async function assembleTournament(slug: string, options: LoadTournamentOptions): Promise<TournamentResponse> {
+  const state: AssemblyState = {
+    fetched: 0,
+    stale: false,
+    partial: false,
+    cachedAt: Date.now(),
+    ttl: Infinity
+  };
+
+  const metadataKey = getTournamentCacheKey(slug);
+  const cachedMetadata = await readEntry<Tournament>(metadataKey, options, state);
+  const metadata = cachedMetadata ?? await fetchEntry(metadataKey, state, () => startGgApi.getTournamentMetadata(slug));
+
+  const { eventSlug } = options;
+  const metadataEvents = eventSlug
+    ? metadata.events.filter(event => matchesEventSlug(event, eventSlug))
+    : metadata.events;
+
+  // Every event is in the tournament before any is assembled: progressive
+  // loads send it as the skeleton that later events and brackets fill in
+  const tournament: Tournament = {
+    ...metadata,
+    events: metadataEvents.map(metadataEvent => ({
+      ...metadataEvent,
+      brackets: [],
+      participants: [...metadataEvent.participants],
+      currentMatches: []
+    }))
+  };
+
+  for (const event of tournament.events) {
+    try {
+      await assembleEvent(slug, tournament, event, options, state);
+    } catch (error) {
+      console.warn(`Failed to load details for event ${event.name}:`, error);
+      state.partial = true;
+      // Continue with other events even if one fails
+    }
+  }
+
+  try {
+    tournament.streamQueues = await assembleStreamQueues(slug, tournament, options, state);
+  } catch (error) {
+    console.warn(`Failed to load stream queues for ${slug}:`, error);
+    // The tournament is still usable without them
+  }
+
+  if (!cachedMetadata) {
+    const ttl = calculateTournamentMetadataTTL(tournament);
+    await writeEntry(metadataKey, metadata, ttl);
+    state.ttl = Math.min(state.ttl, ttl);
+  }
+
+  const matchMetadata = getMatchStateMetadata(tournament);
+
+  if (state.fetched > 0) {
+    console.log(`[TTL] ${slug} -> ${state.ttl}s (fetched: ${state.fetched}, ongoing: ${matchMetadata.counts.ongoing}, recent: ${matchMetadata.counts.recentlyCompleted})`);
+
+    // Rate the newly completed sets - never fail the request over it
+    try {
+      await rateTournament(tournament);
+    } catch (error) {
+      console.error(`[RATINGS] Failed to rate sets for ${slug}:`, error);
+    }
+
+    // Track what changed since the previous fetch - never fail the request over it.
+    // A partial load must not become the baseline: once the missing sets load,
+    // every one of them would be reported as a change.
+    if (state.partial) {
+      console.warn(`[CHANGES] ${slug} loaded partially, not recording a snapshot`);
+    } else {
+      try {
+        await recordTournamentSnapshot(slug, tournament);
+      } catch (error) {
+        console.error(`[CHANGES] Failed to record snapshot for ${slug}:`, error);
+      }
+    }
+  } else {
+    console.log(`[CACHE HIT] ${slug}${state.stale ? ' (stale)' : ''}`);
+  }
+
+  // Predict the open sets from the stored ratings
+  try {
+    await attachWinProbabilities(tournament);
+  } catch (error) {
+    console.error(`[RATINGS] Failed to predict sets for ${slug}:`, error);
+  }
+
+  const response: TournamentResponse = {
+    data: tournament,
+    cached: state.fetched === 0,
+    metadata: {
+      cachedAt: state.cachedAt,
+      ttl: state.stale ? 0 : state.ttl,
+      ...matchMetadata
+    }
+  };
+
+  if (state.stale) {
+    response.metadata.stale = true;
+  }
+
+  return response;
+}
+
+/**
+ * Fill in an event's brackets and matches from its cached entries
+ * Mutates `event`, which is already part of `tournament`
+ */
+async function assembleEvent(
+  slug: string,
+  tournament: Tournament,
+  event: TournamentEvent,
+  options: LoadTournamentOptions,
+  state: AssemblyState
+): Promise<void> {
+  const eventKey = getEventCacheKey(slug, event.id);
+  const cachedStructure = await readEntry<TournamentEvent>(eventKey, options, state);
+  const structure = cachedStructure ?? await fetchEntry(eventKey, state, async () => ({
+    ...event,
+    participants: await startGgApi.getEventEntrants(event.id),
+    brackets: await startGgApi.getEventBrackets(slug, event.id)
+  }));
+
+  event.brackets = structure.brackets.map(bracket => ({ ...bracket, matches: [] }));
+  event.participants = [...structure.participants];
+
+  // Show the structure before any matches
+  options.onProgress?.({ phase: 'structure', matches: 0, total: event.brackets.length });
+  options.onBracketComplete?.(tournament, event);
+
+  let loadedMatches = 0;
+
+  for (let i = 0; i < event.brackets.length; i++) {
+    let bracket: Bracket;
+    try {
+      bracket = await assemblePhaseGroup(slug, event.brackets[i], options, state);
+    } catch (error) {
+      // Nothing was cached for it, so the next load fetches it again
+      console.warn(`Failed to load sets for ${event.name} ${event.brackets[i].name}:`, error);
+      state.partial = true;
+      continue;
+    }
+    event.brackets[i] = bracket;
+    loadedMatches += bracket.matches.length;
+
+    addParticipants(event, bracket.matches);
+    event.currentMatches = getCurrentMatches(event.brackets);
+
+    options.onProgress?.({ phase: 'loading', bracket: bracket.name, matches: loadedMatches, total: event.brackets.length });
+    options.onBracketComplete?.(tournament, event, bracket);
+  }
+
+  if (!cachedStructure) {
+    const ttl = calculateEventTTL(event);
+    await writeEntry(eventKey, structure, ttl);
+    state.ttl = Math.min(state.ttl, ttl);
+  }
+}
+
+/**
+ * Get a phase group with its matches from cache, or fetch and cache it
+ *
+ * A previously cached phase group is refreshed incrementally with only the
+ * sets updated since its latest Match.updatedAt. Throws when its sets fail to
+ * load, leaving the cache entry alone.
+ */
+async function assemblePhaseGroup(
+  slug: string,
+  bracket: Bracket,
+  options: LoadTournamentOptions,
+  state: AssemblyState
+): Promise<Bracket> {
+  const phaseGroupKey = getPhaseGroupCacheKey(slug, bracket.id);
+  const cached = await readEntry<Bracket>(phaseGroupKey, options, state);
+  if (cached) {
+    return cached;
+  }
+
+  // Expired entry to refresh incrementally (none when busting the cache)
+  const previous = options.bustCache ? null : await cacheService.getStale<Bracket>(phaseGroupKey);
+
+  const loaded = await fetchEntry(phaseGroupKey, state, async () => {
+    const refreshed = (previous && await refreshIncrementally(previous.value)) || await startGgApi.getBracketSets(bracket);
+    await writeEntry(phaseGroupKey, refreshed, calculatePhaseGroupTTL(refreshed));
+    return refreshed;
+  });
+
+  state.ttl = Math.min(state.ttl, calculatePhaseGroupTTL(loaded));
+  return loaded;
+}
+
+/**
+ * Get a tournament's stream queues from cache, or fetch and cache them
+ * Needs the tournament's matches assembled first, they drive the TTL
+ */
+async function assembleStreamQueues(
+  slug: string,
+  tournament: Tournament,
+  options: LoadTournamentOptions,
+  state: AssemblyState
+): Promise<StreamQueue[]> {
+  const streamQueueKey = getStreamQueueCacheKey(slug);
+  const cached = await readEntry<StreamQueue[]>(streamQueueKey, options, state);
+  if (cached) {
+    return cached;
+  }
+
+  const streamQueues = await fetchEntry(streamQueueKey, state, () => startGgApi.getStreamQueues(slug));
+  const ttl = calculateStreamQueueTTL(tournament);
+  await writeEntry(streamQueueKey, streamQueues, ttl);
+  state.ttl = Math.min(state.ttl, ttl);
+
+  return streamQueues;
+}
+
+/**
+ * Read an entry for assembly
+ * @returns The cached value, or null when it has to be fetched
+ */
+async function readEntry<T>(key: string, options: LoadTournamentOptions, state: AssemblyState): Promise<T | null> {
+  if (options.bustCache) {
+    return null;
+  }
+
+  const entry = await cacheService.getStale<T>(key);
+  if (!entry) {
+    return null;
+  }
+
+  const remainingTTL = Math.max(0, Math.floor((entry.metadata.expiresAt - Date.now()) / 1000));
+
+  if (entry.stale) {
+    if (options.allowStale === false) {
+      return null;
+    }
+    state.stale = true;
+  } else if (options.refreshAheadSeconds && remainingTTL <= options.refreshAheadSeconds) {
+    return null;
+  }
+
+  trackEntry(state, entry, remainingTTL);
+  return entry.value;
+}
+
+/**
+ * Fetch an entry from start.gg, joining a fetch already in flight for the key
+ */
+async function fetchEntry<T>(key: string, state: AssemblyState, fetch: () => Promise<T>): Promise<T> {
+  if (entryFetches.isInFlight(key)) {
+    console.log(`[COALESCED] ${key} joining in-flight fetch`);
+  } else {
+    console.log(`[CACHE MISS] ${key}`);
+  }
+
+  state.fetched++;
+
+  // Followers receive the leader's value
+  return entryFetches.do(key, fetch) as Promise<T>;
+}
+
+/**
+ * Cache an entry, keeping it around for stale reads after expiry
+ */
+async function writeEntry<T>(key: string, value: T, ttl: number): Promise<void> {
+  await cacheService.set(key, value, ttl, STALE_TTL);
+}
+
+function trackEntry<T>(state: AssemblyState, entry: StaleCacheEntry<T>, remainingTTL: number): void {
+  state.cachedAt = Math.min(state.cachedAt, entry.metadata.createdAt);
+  state.ttl = Math.min(state.ttl, remainingTTL);
+}
+
+/**
+ * Refresh a phase group with only the sets that changed since its latest Match.updatedAt
+ * @returns Updated phase group, or null when a full fetch is needed instead
+ */
+async function refreshIncrementally(bracket: Bracket): Promise<Bracket | null> {
+  const updatedAfter = getLatestUpdateTimestamp(bracket.matches);
+  if (!updatedAfter) {
+    return null;
+  }
+
+  try {
+    // Step back a second so sets updated in the same second aren't missed
+    return await startGgApi.refreshBracketSets(bracket, updatedAfter - 1);
+  } catch (error) {
+    console.warn(`[INCREMENTAL] ${bracket.name} refresh failed, falling back to full fetch:`, error);
+    return null;
+  }
+}
+
+function getLatestUpdateTimestamp(matches: Match[]): number | undefined {
+  let latest: number | undefined;
+
+  for (const match of matches) {
+    if (match.updatedAt && (!latest || match.updatedAt > latest)) {
+      latest = match.updatedAt;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Check an event against a slug from a start.gg URL
+ * start.gg event slugs are full paths: "tournament/<tournament>/event/<event>"
+ */
+function matchesEventSlug(event: TournamentEvent, eventSlug: string): boolean {
+  const slug = event.slug.toLowerCase();
+  const target = eventSlug.toLowerCase();
+  return slug === target || slug.endsWith(`/event/${target}`);
+}
+
+/**
+ * Add the players seeded into matches to an event's participants
+ */
+function addParticipants(event: TournamentEvent, matches: Match[]): void {
+  const existingPlayerIds = new Set(event.participants.map(p => p.id));
+
+  for (const match of matches) {
+    [match.player1, match.player2].forEach(player => {
+      if (player && player.tag !== 'Unknown Player' && !existingPlayerIds.has(player.id)) {
+        event.participants.push(player);
+        existingPlayerIds.add(player.id);
+      }
+    });
+  }
+}
+
+function getCurrentMatches(brackets: Bracket[]): Match[] {
+  return brackets
+    .flatMap(bracket => bracket.matches)
+    .filter(match => match.status === 'pending' || match.status === 'in_progress')
+    .filter((match, index, self) => index === self.findIndex(m => m.id === match.id));
+}
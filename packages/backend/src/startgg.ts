@@ -1,8 +1,88 @@
 import axios from 'axios';
-import type { Tournament, TournamentEvent, Player, Match, Bracket } from '@commentary/shared';
+import { calculateUpsetFactor } from './utils/seeding';
+import type { CharacterGame } from './utils/character-stats';
+import type {
+  Tournament,
+  TournamentEvent,
+  Player,
+  Match,
+  Bracket,
+  PlayerProfile,
+  TournamentEntry,
+  Achievement,
+  HeadToHeadRecord,
+  HeadToHeadSet,
+  MatchStream,
+  MatchGame,
+  StreamQueue
+} from '@commentary/shared';
 
 const STARTGG_API_URL = 'https://api.start.gg/gql/alpha';
 
+// Entrants per page - each entrant brings its participants, so larger pages hit the query complexity limit
+const ENTRANTS_PER_PAGE = 64;
+
+// Set fields shared by every sets query so matches transform the same way
+const SET_FIELDS = `
+  id
+  fullRoundText
+  round
+  state
+  startedAt
+  completedAt
+  updatedAt
+  slots {
+    prereqId
+    prereqType
+    entrant {
+      id
+      name
+      initialSeedNum
+      participants {
+        id
+        gamerTag
+        player {
+          id
+        }
+      }
+    }
+    standing {
+      stats {
+        score {
+          label
+          value
+        }
+      }
+    }
+  }
+  games {
+    winnerId
+    orderNum
+    stage {
+      name
+    }
+    selections {
+      entrant {
+        id
+      }
+      character {
+        id
+        name
+      }
+    }
+  }
+  winnerId
+  lPlacement
+  station {
+    number
+  }
+  stream {
+    id
+    streamName
+    streamSource
+  }
+`;
+
 class StartGgApi {
   private token: string;
   private axiosInstance;
@@ -114,9 +194,31 @@ class StartGgApi {
   async getTournamentBySlug(
     slug: string, 
     onProgress?: (progress: { phase: string; bracket?: string; matches: number; total: number }) => void,
-    onBracketComplete?: (tournament: Tournament, event: TournamentEvent) => void
+    onBracketComplete?: (tournament: Tournament, event: TournamentEvent, bracket?: Bracket) => void
   ): Promise<Tournament> {
     // First, get basic tournament info and events
+    const tournament = await this.getTournamentMetadata(slug);
+
+    // For each event, get phase groups and current matches separately
+    for (const event of tournament.events) {
+      try {
+        await this.loadEventDetails(event, slug, onProgress, (updatedEvent, bracket) => {
+          onBracketComplete?.(tournament, updatedEvent, bracket);
+        });
+      } catch (error) {
+        console.warn(`Failed to load details for event ${event.name}:`, error);
+        // Continue with other events even if one fails
+      }
+    }
+
+    return tournament;
+  }
+
+  /**
+   * Get basic tournament info: name, url and events
+   * Events come back without entrants, brackets or matches - load entrants with getEventEntrants
+   */
+  async getTournamentMetadata(slug: string): Promise<Tournament> {
     const tournamentQuery = `
       query TournamentQuery($slug: String!) {
         tournament(slug: $slug) {
@@ -128,18 +230,8 @@ class StartGgApi {
             id
             name
             slug
-            entrants(query: {page: 1, perPage: 16}) {
-              nodes {
-                id
-                name
-                participants {
-                  id
-                  gamerTag
-                  user {
-                    name
-                  }
-                }
-              }
+            videogame {
+              name
             }
           }
         }
@@ -152,30 +244,14 @@ class StartGgApi {
       throw new Error(`Tournament with slug "${slug}" not found or tournament data is invalid`);
     }
     
-    const tournament = this.transformBasicTournamentData(tournamentData.tournament);
-
-    // For each event, get phase groups and current matches separately
-    for (const event of tournament.events) {
-      try {
-        await this.loadEventDetails(event, slug, onProgress, (updatedEvent) => {
-          onBracketComplete?.(tournament, updatedEvent);
-        });
-      } catch (error) {
-        console.warn(`Failed to load details for event ${event.name}:`, error);
-        // Continue with other events even if one fails
-      }
-    }
-
-    return tournament;
+    return this.transformBasicTournamentData(tournamentData.tournament);
   }
 
-  private async loadEventDetails(
-    event: TournamentEvent, 
-    tournamentSlug: string, 
-    onProgress?: (progress: { phase: string; bracket?: string; matches: number; total: number }) => void,
-    onBracketComplete?: (event: TournamentEvent) => void
-  ): Promise<void> {
-    // First, get the phase groups structure
+  /**
+   * Get the bracket structure (phase groups) of an event
+   * Brackets come back without matches - load them with getBracketSets
+   */
+  async getEventBrackets(tournamentSlug: string, eventId: string): Promise<Bracket[]> {
     const phaseGroupsQuery = `
       query PhaseGroupsQuery($slug: String!, $eventId: ID!) {
         tournament(slug: $slug) {
@@ -199,24 +275,122 @@ class StartGgApi {
 
     const phaseGroupData = await this.query(phaseGroupsQuery, { 
       slug: tournamentSlug, 
-      eventId: event.id
+      eventId
     });
-    
-    if (!phaseGroupData.tournament?.events || phaseGroupData.tournament.events.length === 0) {
-      return;
-    }
 
-    const eventDetails = phaseGroupData.tournament.events[0];
-    if (!eventDetails.phaseGroups) {
-      return;
+    const eventDetails = phaseGroupData.tournament?.events?.[0];
+    if (!eventDetails?.phaseGroups) {
+      return [];
     }
 
-    // Initialize brackets and show early structure
-    event.brackets = eventDetails.phaseGroups.map((phaseGroup: any) => ({
+    return eventDetails.phaseGroups.map((phaseGroup: any) => ({
       id: phaseGroup.id,
       name: this.getBracketName(phaseGroup),
       matches: []
     }));
+  }
+
+  /**
+   * Page through all entrants of an event
+   * Throws when a page fails to load - a partial entrant list is never returned
+   */
+  async getEventEntrants(eventId: string): Promise<Player[]> {
+    const entrantsQuery = `
+      query EventEntrantsQuery($eventId: ID!, $page: Int!, $perPage: Int!) {
+        event(id: $eventId) {
+          entrants(query: {page: $page, perPage: $perPage}) {
+            pageInfo {
+              totalPages
+            }
+            nodes {
+              id
+              name
+              initialSeedNum
+              participants {
+                id
+                gamerTag
+                player {
+                  id
+                }
+                user {
+                  name
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    // Keyed by entrant id - registrations during paging shift entrants across pages
+    const entrants = new Map<string, Player>();
+    let totalPages = 1;
+
+    for (let page = 1; page <= totalPages; page++) {
+      const data: any = await this.query(entrantsQuery, { eventId, page, perPage: ENTRANTS_PER_PAGE });
+      const connection = data?.event?.entrants;
+
+      if (typeof connection?.pageInfo?.totalPages !== 'number') {
+        throw new Error(`Entrants page ${page} for event ${eventId} came back without page info`);
+      }
+
+      totalPages = connection.pageInfo.totalPages;
+      for (const entrant of connection.nodes || []) {
+        if (entrant?.id) {
+          const player = this.transformPlayerData(entrant);
+          entrants.set(player.id, player);
+        }
+      }
+    }
+
+    return Array.from(entrants.values());
+  }
+
+  /**
+   * Load all sets of a bracket (phase group)
+   * Throws when a page fails to load - a partial bracket is never returned
+   * @returns Copy of the bracket with its matches filled in
+   */
+  async getBracketSets(bracket: Bracket): Promise<Bracket> {
+    const matches: Match[] = [];
+    let page = 1;
+    let hasMorePages = true;
+
+    while (hasMorePages && page <= 10) { // Allow up to 10 pages if needed
+      const setsData = await this.loadPhaseGroupSets(bracket.id, page);
+
+      if (setsData.length > 0) {
+        matches.push(...setsData.map((set: any) => this.transformMatchData(set, bracket.name)));
+
+        // Check if we got fewer results than requested (indicates last page)
+        if (setsData.length < 30) {
+          hasMorePages = false;
+        } else {
+          page++;
+        }
+      } else {
+        hasMorePages = false;
+      }
+    }
+
+    return { ...bracket, matches };
+  }
+
+  private async loadEventDetails(
+    event: TournamentEvent, 
+    tournamentSlug: string, 
+    onProgress?: (progress: { phase: string; bracket?: string; matches: number; total: number }) => void,
+    onBracketComplete?: (event: TournamentEvent, bracket?: Bracket) => void
+  ): Promise<void> {
+    // First, get the phase groups structure
+    const brackets = await this.getEventBrackets(tournamentSlug, event.id);
+    if (brackets.length === 0) {
+      return;
+    }
+
+    // Initialize brackets and show early structure
+    event.brackets = brackets;
+    event.participants = await this.getEventEntrants(event.id);
     
     // Initialize currentMatches array
     event.currentMatches = [];
@@ -225,95 +399,46 @@ class StartGgApi {
     onProgress?.({ 
       phase: 'structure', 
       matches: 0, 
-      total: eventDetails.phaseGroups.length 
+      total: brackets.length 
     });
     
     // Show the initial structure immediately
     onBracketComplete?.(event);
 
     // Now fetch sets for each phase group separately to avoid complexity limits
-    const allMatches: any[] = [];
-    const allPlayers = new Map<string, any>();
-
-    for (let i = 0; i < eventDetails.phaseGroups.length; i++) {
-      const phaseGroup = eventDetails.phaseGroups[i];
+    let loadedMatches = 0;
 
+    for (let i = 0; i < event.brackets.length; i++) {
       // No extra delay needed - request queue already enforces rate limit
-
-      let page = 1;
-      let hasMorePages = true;
-      const bracketMatches: any[] = [];
-      const bracketPlayers = new Map<string, any>();
-
-      while (hasMorePages && page <= 10) { // Allow up to 10 pages if needed
-        try {
-          const setsData = await this.loadPhaseGroupSets(tournamentSlug, phaseGroup.id, page);
-          
-          if (setsData && setsData.length > 0) {
-            // Transform and add matches for this bracket
-            const bracketName = this.getBracketName(phaseGroup);
-            const matches = setsData.map((set: any) => this.transformMatchData(set, bracketName));
-            bracketMatches.push(...matches);
-            allMatches.push(...matches);
-
-            // Extract players for this bracket
-            setsData.forEach((set: any) => {
-              if (set.slots) {
-                set.slots.forEach((slot: any) => {
-                  if (slot.entrant && slot.entrant.id) {
-                    const player = this.transformPlayerData(slot.entrant);
-                    if (player.id && player.tag !== 'Unknown Player') {
-                      bracketPlayers.set(player.id, player);
-                      allPlayers.set(player.id, player);
-                    }
-                  }
-                });
-              }
-            });
-
-            // Check if we got fewer results than requested (indicates last page)
-            if (setsData.length < 30) {
-              hasMorePages = false;
-            } else {
-              page++;
-            }
-          } else {
-            hasMorePages = false;
-          }
-        } catch (error) {
-          console.warn(`Failed to load page ${page} for phase group ${phaseGroup.id}:`, error);
-          hasMorePages = false;
-        }
-      }
-
-      // Update the specific bracket with its matches
-      const bracketIndex = event.brackets.findIndex(b => b.id === phaseGroup.id);
-      if (bracketIndex !== -1) {
-        event.brackets[bracketIndex].matches = bracketMatches;
+      let loadedBracket: Bracket;
+      try {
+        loadedBracket = await this.getBracketSets(event.brackets[i]);
+      } catch (error) {
+        console.warn(`Failed to load sets for phase group ${event.brackets[i].id}:`, error);
+        continue; // Keep the bracket without matches, load the others
       }
+      event.brackets[i] = loadedBracket;
+      loadedMatches += loadedBracket.matches.length;
 
       // Add new players to the event participants
-      const existingPlayerIds = new Set(event.participants.map(p => p.id));
-      const newPlayers = Array.from(bracketPlayers.values()).filter(p => !existingPlayerIds.has(p.id));
-      event.participants.push(...newPlayers);
+      this.addParticipants(event, loadedBracket.matches);
 
       // Update current matches with newly loaded matches
-      const newCurrentMatches = bracketMatches.filter(match => 
+      const newCurrentMatches = loadedBracket.matches.filter(match => 
         match.status === 'pending' || match.status === 'in_progress'
       );
       event.currentMatches = [...event.currentMatches, ...newCurrentMatches];
 
       // Report progress for this bracket
-      const bracketName = this.getBracketName(phaseGroup);
       onProgress?.({ 
         phase: 'loading', 
-        bracket: bracketName,
-        matches: allMatches.length, 
-        total: eventDetails.phaseGroups.length 
+        bracket: loadedBracket.name,
+        matches: loadedMatches, 
+        total: event.brackets.length 
       });
 
       // Trigger UI update immediately after each bracket is loaded
-      onBracketComplete?.(event);
+      onBracketComplete?.(event, loadedBracket);
     }
 
     // Final cleanup - brackets and current matches are already updated progressively
@@ -323,62 +448,282 @@ class StartGgApi {
     );
   }
 
-  private async loadPhaseGroupSets(tournamentSlug: string, phaseGroupId: string, page: number): Promise<any[]> {
+  /**
+   * Add the players seeded into matches to an event's participants
+   */
+  private addParticipants(event: TournamentEvent, matches: Match[]): void {
+    const existingPlayerIds = new Set(event.participants.map(p => p.id));
+
+    for (const match of matches) {
+      [match.player1, match.player2].forEach(player => {
+        if (player && player.tag !== 'Unknown Player' && !existingPlayerIds.has(player.id)) {
+          event.participants.push(player);
+          existingPlayerIds.add(player.id);
+        }
+      });
+    }
+  }
+
+  private async loadPhaseGroupSets(phaseGroupId: string, page: number): Promise<any[]> {
     const setsQuery = `
       query PhaseGroupSetsQuery($phaseGroupId: ID!, $page: Int!) {
         phaseGroup(id: $phaseGroupId) {
           sets(page: $page, perPage: 30, filters: {state: [1, 2, 3]}) {
+            nodes {
+              ${SET_FIELDS}
+            }
+          }
+        }
+      }
+    `;
+
+    const result: any = await this.query(setsQuery, { phaseGroupId, page });
+    return result?.phaseGroup?.sets?.nodes || [];
+  }
+
+  /**
+   * Incrementally refresh a bracket with only the sets that changed since
+   * it was loaded (start.gg `updatedAfter` set filter)
+   *
+   * @param bracket - Previously loaded bracket (not mutated)
+   * @param updatedAfter - Unix timestamp (seconds), usually the latest Match.updatedAt in the bracket
+   * @returns Updated bracket, or null when too much changed and a full reload is cheaper
+   */
+  async refreshBracketSets(bracket: Bracket, updatedAfter: number): Promise<Bracket | null> {
+    const sets = await this.loadUpdatedPhaseGroupSets(bracket.id, updatedAfter);
+    if (!sets) {
+      return null;
+    }
+
+    const matches = [...bracket.matches];
+
+    for (const set of sets) {
+      const match = this.transformMatchData(set, bracket.name);
+      const matchIndex = matches.findIndex(m => m.id === match.id);
+      if (matchIndex === -1) {
+        matches.push(match);
+      } else {
+        matches[matchIndex] = match;
+      }
+    }
+
+    console.log(`[INCREMENTAL] ${bracket.name} -> ${sets.length} set(s) updated since ${updatedAfter}`);
+
+    return { ...bracket, matches };
+  }
+
+  private async loadUpdatedPhaseGroupSets(phaseGroupId: string, updatedAfter: number): Promise<any[] | null> {
+    const setsQuery = `
+      query PhaseGroupUpdatedSetsQuery($phaseGroupId: ID!, $page: Int!, $updatedAfter: Timestamp!) {
+        phaseGroup(id: $phaseGroupId) {
+          sets(page: $page, perPage: 30, filters: {state: [1, 2, 3], updatedAfter: $updatedAfter}) {
+            nodes {
+              ${SET_FIELDS}
+            }
+          }
+        }
+      }
+    `;
+
+    const sets: any[] = [];
+
+    for (let page = 1; page <= 10; page++) {
+      const result: any = await this.query(setsQuery, { phaseGroupId, page, updatedAfter });
+      const nodes = result?.phaseGroup?.sets?.nodes || [];
+      sets.push(...nodes);
+
+      // Fewer results than requested means this was the last page
+      if (nodes.length < 30) {
+        return sets;
+      }
+    }
+
+    // More than 10 pages of changes - cheaper to reload the whole bracket
+    return null;
+  }
+
+  /**
+   * Get a tournament's stream queues: the sets lined up on each stream
+   * Sets are returned as ids only - their data comes with the brackets
+   */
+  async getStreamQueues(slug: string): Promise<StreamQueue[]> {
+    const streamQueueQuery = `
+      query StreamQueueQuery($slug: String!) {
+        tournament(slug: $slug) {
+          streamQueue {
+            stream {
+              id
+              streamName
+              streamSource
+            }
+            sets {
+              id
+            }
+          }
+        }
+      }
+    `;
+
+    const data: any = await this.query(streamQueueQuery, { slug });
+
+    return (data?.tournament?.streamQueue || [])
+      .filter((queue: any) => queue?.stream?.id)
+      .map((queue: any) => ({
+        stream: this.transformStreamData(queue.stream),
+        matchIds: (queue.sets || [])
+          .filter((set: any) => set?.id)
+          .map((set: any) => set.id.toString())
+      }));
+  }
+
+  /**
+   * Get the characters a player picked in their recent completed sets
+   *
+   * Looks through the most recent sets of the player (up to 5 pages). Only
+   * games with a reported character selection are returned.
+   *
+   * @param playerId - start.gg player id (Player.startggId)
+   * @returns Tag and games, or null if start.gg has no such player
+   */
+  async getPlayerCharacterGames(playerId: string): Promise<{ tag?: string; games: CharacterGame[] } | null> {
+    const setsQuery = `
+      query PlayerCharacterSetsQuery($playerId: ID!, $page: Int!) {
+        player(id: $playerId) {
+          id
+          gamerTag
+          sets(page: $page, perPage: 20, filters: {state: [3]}) {
+            nodes {
+              id
+              slots {
+                entrant {
+                  id
+                  participants {
+                    player {
+                      id
+                    }
+                  }
+                }
+              }
+              games {
+                winnerId
+                selections {
+                  entrant {
+                    id
+                  }
+                  character {
+                    id
+                    name
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const games: CharacterGame[] = [];
+    let tag: string | undefined;
+
+    for (let page = 1; page <= 5; page++) {
+      const result: any = await this.query(setsQuery, { playerId, page });
+      if (!result?.player) {
+        return page === 1 ? null : { tag, games };
+      }
+
+      tag = result.player.gamerTag || tag;
+      const nodes = result.player.sets?.nodes || [];
+
+      for (const set of nodes) {
+        games.push(...this.transformCharacterGames(set, playerId));
+      }
+
+      // Fewer results than requested means this was the last page
+      if (nodes.length < 20) {
+        break;
+      }
+    }
+
+    return { tag, games };
+  }
+
+  /**
+   * Get the completed sets two players played against each other
+   *
+   * Looks through the most recent sets of player A (up to 5 pages) for ones
+   * against player B. DQs are left out.
+   *
+   * @param playerAId - start.gg player id (Player.startggId)
+   * @param playerBId - start.gg player id (Player.startggId)
+   */
+  async getHeadToHead(playerAId: string, playerBId: string): Promise<HeadToHeadRecord> {
+    const setsQuery = `
+      query PlayerSetsQuery($playerId: ID!, $page: Int!) {
+        player(id: $playerId) {
+          id
+          sets(page: $page, perPage: 40, filters: {state: [3]}) {
             nodes {
               id
               fullRoundText
-              round
-              state
-              startedAt
               completedAt
-              updatedAt
+              winnerId
+              event {
+                name
+                tournament {
+                  name
+                }
+              }
               slots {
                 entrant {
                   id
-                  name
                   participants {
-                    id
-                    gamerTag
+                    player {
+                      id
+                    }
                   }
                 }
                 standing {
                   stats {
                     score {
-                      label
                       value
                     }
                   }
                 }
               }
-              games {
-                winnerId
-                orderNum
-                stage {
-                  name
-                }
-              }
-              winnerId
             }
           }
         }
       }
     `;
 
-    try {
-      const result = await this.query(setsQuery, { 
-        phaseGroupId,
-        page
-      });
+    const sets: HeadToHeadSet[] = [];
 
-      return result?.phaseGroup?.sets?.nodes || [];
-    } catch (error) {
-      console.warn(`Failed to load sets for phase group ${phaseGroupId}, page ${page}:`, error);
-      return [];
+    for (let page = 1; page <= 5; page++) {
+      const result: any = await this.query(setsQuery, { playerId: playerAId, page });
+      const nodes = result?.player?.sets?.nodes || [];
+
+      for (const set of nodes) {
+        const headToHeadSet = this.transformHeadToHeadSet(set, playerAId, playerBId);
+        if (headToHeadSet) {
+          sets.push(headToHeadSet);
+        }
+      }
+
+      // Fewer results than requested means this was the last page
+      if (nodes.length < 40) {
+        break;
+      }
     }
+
+    sets.sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0));
+
+    return {
+      playerAId,
+      playerBId,
+      playerAWins: sets.filter(set => set.winnerId === playerAId).length,
+      playerBWins: sets.filter(set => set.winnerId === playerBId).length,
+      sets,
+    };
   }
 
   private getBracketName(phaseGroup: any): string {
@@ -390,44 +735,36 @@ class StartGgApi {
   async getTournamentByUrl(
     url: string,
     onProgress?: (progress: { phase: string; bracket?: string; matches: number; total: number }) => void,
-    onBracketComplete?: (tournament: Tournament, event: TournamentEvent) => void
+    onBracketComplete?: (tournament: Tournament, event: TournamentEvent, bracket?: Bracket) => void
   ): Promise<Tournament> {
     const slug = this.extractSlugFromUrl(url);
     return this.getTournamentBySlug(slug, onProgress, onBracketComplete);
   }
 
-  async getPlayerHistory(playerId: string): Promise<any> {
+  /**
+   * Get a player's recent placements across tournaments
+   * @param playerId - start.gg player id (Player.startggId)
+   * @returns Profile, or null if start.gg has no such player
+   */
+  async getPlayerHistory(playerId: string): Promise<PlayerProfile | null> {
     const query = `
-      query PlayerQuery($id: ID!) {
-        user(id: $id) {
+      query PlayerHistoryQuery($playerId: ID!) {
+        player(id: $playerId) {
           id
           gamerTag
-          player {
-            gamerTag
+          user {
+            name
           }
-          tournaments(query: {
-            page: 1
-            perPage: 20
-          }) {
-            nodes {
-              id
-              name
-              endAt
-              events {
+          recentStandings(limit: 20) {
+            placement
+            entrant {
+              event {
                 id
                 name
-                entrants(query: {
-                  filter: {
-                    participantIds: [$id]
-                  }
-                }) {
-                  nodes {
-                    id
-                    name
-                    standing {
-                      placement
-                    }
-                  }
+                numEntrants
+                tournament {
+                  name
+                  endAt
                 }
               }
             }
@@ -436,9 +773,15 @@ class StartGgApi {
       }
     `;
 
-    return this.query(query, { id: playerId });
+    const data: any = await this.query(query, { playerId });
+    if (!data?.player) {
+      return null;
+    }
+
+    return this.transformPlayerHistory(data.player);
   }
 
+
   private extractSlugFromUrl(url: string): string {
     // Extract slug from URLs like:
     // https://www.start.gg/tournament/manila-madness-4/details
@@ -450,6 +793,108 @@ class StartGgApi {
     return match[1];
   }
 
+  private transformPlayerHistory(rawPlayer: any): PlayerProfile {
+    const tournamentHistory: TournamentEntry[] = (rawPlayer.recentStandings || [])
+      .filter((standing: any) => standing?.placement && standing.entrant?.event)
+      .map((standing: any) => {
+        const event = standing.entrant.event;
+        return {
+          name: event.tournament?.name || event.name || 'Unknown Tournament',
+          date: event.tournament?.endAt ? new Date(event.tournament.endAt * 1000).toISOString() : '',
+          placement: standing.placement,
+          participants: event.numEntrants || 0,
+        };
+      })
+      .sort((a: TournamentEntry, b: TournamentEntry) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    const achievements: Achievement[] = tournamentHistory
+      .filter(entry => entry.placement <= 8)
+      .reverse()
+      .map(entry => ({
+        tournament: entry.name,
+        placement: entry.placement,
+        date: entry.date,
+        participants: entry.participants,
+      }));
+
+    return {
+      id: rawPlayer.id.toString(),
+      tag: rawPlayer.gamerTag || 'Unknown Player',
+      name: rawPlayer.user?.name,
+      tournamentHistory,
+      achievements,
+    };
+  }
+
+  /**
+   * The player's character picks in a set's games
+   */
+  private transformCharacterGames(set: any, playerId: string): CharacterGame[] {
+    const slot = (set?.slots || []).find((slot: any) =>
+      (slot?.entrant?.participants || []).some((participant: any) => participant?.player?.id?.toString() === playerId)
+    );
+    const entrantId = slot?.entrant?.id?.toString();
+    if (!entrantId) {
+      return [];
+    }
+
+    const characterGames: CharacterGame[] = [];
+
+    for (const game of set.games || []) {
+      const selection = (game?.selections || []).find((selection: any) =>
+        selection?.entrant?.id?.toString() === entrantId && selection.character
+      );
+
+      if (selection) {
+        characterGames.push({
+          character: { id: selection.character.id.toString(), name: selection.character.name || 'Unknown' },
+          won: game.winnerId?.toString() === entrantId
+        });
+      }
+    }
+
+    return characterGames;
+  }
+
+  private transformHeadToHeadSet(set: any, playerAId: string, playerBId: string): HeadToHeadSet | null {
+    const slots = set?.slots || [];
+    const hasPlayer = (slot: any, playerId: string) =>
+      (slot?.entrant?.participants || []).some((participant: any) => participant?.player?.id?.toString() === playerId);
+
+    const slotA = slots.find((slot: any) => hasPlayer(slot, playerAId));
+    const slotB = slots.find((slot: any) => hasPlayer(slot, playerBId));
+    if (!slotA || !slotB || slotA === slotB) {
+      return null;
+    }
+
+    const playerAScore = slotA.standing?.stats?.score?.value;
+    const playerBScore = slotB.standing?.stats?.score?.value;
+
+    // start.gg reports a DQ as a score of -1
+    if (playerAScore === -1 || playerBScore === -1) {
+      return null;
+    }
+
+    const winnerEntrantId = set.winnerId?.toString();
+    const winnerId = slotA.entrant.id?.toString() === winnerEntrantId ? playerAId
+      : slotB.entrant.id?.toString() === winnerEntrantId ? playerBId
+      : null;
+    if (!winnerId) {
+      return null;
+    }
+
+    return {
+      id: set.id.toString(),
+      tournament: set.event?.tournament?.name || 'Unknown Tournament',
+      event: set.event?.name || 'Unknown Event',
+      round: set.fullRoundText || 'Unknown Round',
+      winnerId,
+      playerAScore: typeof playerAScore === 'number' ? playerAScore : undefined,
+      playerBScore: typeof playerBScore === 'number' ? playerBScore : undefined,
+      completedAt: set.completedAt,
+    };
+  }
+
   private transformBasicTournamentData(rawTournament: any): Tournament {
     if (!rawTournament) {
       throw new Error('Tournament data is null or undefined');
@@ -489,6 +934,7 @@ class StartGgApi {
       id: rawEvent.id.toString(),
       name: rawEvent.name || 'Unknown Event',
       slug: rawEvent.slug || 'unknown-event',
+      game: rawEvent.videogame?.name || undefined,
       brackets: [], // Will be populated later
       participants: [],
       currentMatches: [], // Will be populated later
@@ -562,7 +1008,48 @@ class StartGgApi {
       id: entrant.id.toString(),
       tag: participant?.gamerTag || entrant.name || 'Unknown Player',
       name: participant?.user?.name,
-      startggId: participant?.id?.toString(),
+      startggId: participant?.player?.id?.toString(),
+      seed: entrant.initialSeedNum || undefined,
+    };
+  }
+
+  /**
+   * Game-by-game results of a set, with each player's character when reported
+   * @returns Games in play order, or undefined when none were reported
+   */
+  private transformGamesData(rawGames: any, player1Id?: string, player2Id?: string): MatchGame[] | undefined {
+    if (!Array.isArray(rawGames) || rawGames.length === 0) {
+      return undefined;
+    }
+
+    return [...rawGames]
+      .filter((game: any) => game)
+      .sort((a: any, b: any) => (a.orderNum || 0) - (b.orderNum || 0))
+      .map((game: any, index: number) => {
+        const getCharacter = (playerId?: string) => {
+          const selection = (game.selections || []).find((selection: any) =>
+            playerId && selection?.entrant?.id?.toString() === playerId && selection.character
+          );
+          return selection
+            ? { id: selection.character.id.toString(), name: selection.character.name || 'Unknown' }
+            : undefined;
+        };
+
+        return {
+          number: game.orderNum || index + 1,
+          winnerId: game.winnerId?.toString() || undefined,
+          stage: game.stage?.name || undefined,
+          player1Character: getCharacter(player1Id),
+          player2Character: getCharacter(player2Id)
+        };
+      });
+  }
+
+  private transformStreamData(stream: any): MatchStream {
+    return {
+      id: stream.id.toString(),
+      name: stream.streamName || 'Unknown Stream',
+      source: stream.streamSource || undefined
     };
   }
 
@@ -673,11 +1160,27 @@ class StartGgApi {
       }
     }
 
+    const player1 = player1Data ? this.transformPlayerData(player1Data) : undefined;
+    const player2 = player2Data ? this.transformPlayerData(player2Data) : undefined;
+
+    // How big an upset a completed set was, when both players are seeded
+    const loser = winner && (winner.id === player1?.id ? player2 : player1);
+    const upsetFactor = set.state === 3 && winner?.seed && loser?.seed
+      ? calculateUpsetFactor(winner.seed, loser.seed)
+      : undefined;
+
+    // Sets whose winner or loser fills the slots (seeded slots have no prerequisite)
+    const prerequisiteMatchIds = slots
+      .filter((slot: any) => slot?.prereqType === 'set' && slot.prereqId)
+      .map((slot: any) => slot.prereqId.toString());
+
     return {
       id: set.id.toString(),
       round: set.fullRoundText || `Round ${set.round || 'Unknown'}`,
-      player1: player1Data ? this.transformPlayerData(player1Data) : undefined,
-      player2: player2Data ? this.transformPlayerData(player2Data) : undefined,
+      roundNumber: typeof set.round === 'number' ? set.round : undefined,
+      prerequisiteMatchIds: prerequisiteMatchIds.length > 0 ? prerequisiteMatchIds : undefined,
+      player1,
+      player2,
       winner,
       status: this.getMatchStatus(set.state),
       bracketName: bracketName || 'Unknown Bracket',
@@ -685,6 +1188,11 @@ class StartGgApi {
       startedAt: set.startedAt || undefined,
       completedAt: set.completedAt || undefined,
       updatedAt: set.updatedAt || undefined,
+      upsetFactor,
+      loserPlacement: set.lPlacement || undefined,
+      station: set.station?.number || undefined,
+      stream: set.stream?.id ? this.transformStreamData(set.stream) : undefined,
+      games: this.transformGamesData(set.games, player1?.id, player2?.id),
       // Debug log when score is included
       ...(score && Math.random() < 0.1 && console.log('Match with score:', { id: set.id, score })),
     };
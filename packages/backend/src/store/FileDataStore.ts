@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SingleFlight } from '../utils/single-flight';
+import type { IDataStore } from './IDataStore';
+
+/**
+ * File-based data store implementation
+ * Keeps one JSON file per collection in a directory and loads collections
+ * into memory on first access
+ */
+export class FileDataStore implements IDataStore {
+  private collections: Map<string, Map<string, any>> = new Map();
+  private loads = new SingleFlight<Map<string, any>>();
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(private readonly directory: string) {
+    console.log(`ℹ️  FileDataStore initialized (${directory})`);
+  }
+
+  async get<T = any>(collection: string, id: string): Promise<T | null> {
+    const records = await this.load(collection);
+    return records.get(id) ?? null;
+  }
+
+  async list<T = any>(collection: string): Promise<T[]> {
+    const records = await this.load(collection);
+    return Array.from(records.values());
+  }
+
+  async put(collection: string, id: string, value: any): Promise<void> {
+    const records = await this.load(collection);
+    records.set(id, value);
+    await this.persist(collection);
+  }
+
+  async putMany(collection: string, records: Map<string, any>): Promise<void> {
+    const existing = await this.load(collection);
+    records.forEach((value, id) => existing.set(id, value));
+    await this.persist(collection);
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    const records = await this.load(collection);
+    if (!records.delete(id)) {
+      return false;
+    }
+
+    await this.persist(collection);
+    return true;
+  }
+
+  async close(): Promise<void> {
+    await Promise.allSettled(this.writes.values());
+  }
+
+  getName(): string {
+    return 'FileDataStore';
+  }
+
+  /**
+   * Get a collection's records, reading its file once
+   */
+  private async load(collection: string): Promise<Map<string, any>> {
+    const loaded = this.collections.get(collection);
+    if (loaded) {
+      return loaded;
+    }
+
+    return this.loads.do(collection, async () => {
+      const records = await this.readCollection(collection);
+      this.collections.set(collection, records);
+      return records;
+    });
+  }
+
+  private async readCollection(collection: string): Promise<Map<string, any>> {
+    try {
+      const content = await fs.readFile(this.getFilePath(collection), 'utf8');
+      return new Map(JSON.parse(content));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write a collection to disk
+   * Writes of a collection run one at a time, each writing its latest state
+   */
+  private persist(collection: string): Promise<void> {
+    const previous = this.writes.get(collection) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined) // A failed write was reported to its caller
+      .then(() => this.writeCollection(collection));
+
+    this.writes.set(collection, write);
+    return write;
+  }
+
+  private async writeCollection(collection: string): Promise<void> {
+    const records = this.collections.get(collection);
+    if (!records) {
+      return;
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated collection
+    const filePath = this.getFilePath(collection);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(Array.from(records.entries()), null, 2));
+    await fs.rename(tempPath, filePath);
+  }
+
+  private getFilePath(collection: string): string {
+    return path.join(this.directory, `${encodeURIComponent(collection)}.json`);
+  }
+}
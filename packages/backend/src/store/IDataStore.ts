@@ -0,0 +1,57 @@
+/**
+ * Data store interface for user-created data that must survive restarts
+ * (notes, prep sheets, ...), unlike the cache which only holds start.gg data
+ * Implementations: FileDataStore, InMemoryDataStore
+ *
+ * Records are grouped in collections (e.g. "notes:genesis-10") and
+ * addressed by id within a collection.
+ */
+export interface IDataStore {
+  /**
+   * Get a record
+   * @param collection - Collection name
+   * @param id - Record id
+   * @returns Record or null if not found
+   */
+  get<T = any>(collection: string, id: string): Promise<T | null>;
+
+  /**
+   * List all records of a collection
+   * @param collection - Collection name
+   * @returns Records in insertion order, empty if the collection doesn't exist
+   */
+  list<T = any>(collection: string): Promise<T[]>;
+
+  /**
+   * Create or replace a record
+   * @param collection - Collection name
+   * @param id - Record id
+   * @param value - Record, must be JSON-serializable
+   */
+  put(collection: string, id: string, value: any): Promise<void>;
+
+  /**
+   * Create or replace several records of a collection in one write
+   * @param collection - Collection name
+   * @param records - Records by id, each must be JSON-serializable
+   */
+  putMany(collection: string, records: Map<string, any>): Promise<void>;
+
+  /**
+   * Delete a record
+   * @param collection - Collection name
+   * @param id - Record id
+   * @returns True if the record existed
+   */
+  delete(collection: string, id: string): Promise<boolean>;
+
+  /**
+   * Flush pending writes and cleanup
+   */
+  close(): Promise<void>;
+
+  /**
+   * Get data store name for logging
+   */
+  getName(): string;
+}
@@ -0,0 +1,46 @@
+import type { IDataStore } from './IDataStore';
+
+/**
+ * In-memory data store implementation
+ * Data is lost on restart - meant for development and tests
+ */
+export class InMemoryDataStore implements IDataStore {
+  private collections: Map<string, Map<string, any>> = new Map();
+
+  constructor() {
+    console.log('ℹ️  InMemoryDataStore initialized');
+  }
+
+  async get<T = any>(collection: string, id: string): Promise<T | null> {
+    return this.collections.get(collection)?.get(id) ?? null;
+  }
+
+  async list<T = any>(collection: string): Promise<T[]> {
+    return Array.from(this.collections.get(collection)?.values() ?? []);
+  }
+
+  async put(collection: string, id: string, value: any): Promise<void> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, new Map());
+    }
+    this.collections.get(collection)!.set(id, value);
+  }
+
+  async putMany(collection: string, records: Map<string, any>): Promise<void> {
+    for (const [id, value] of records) {
+      await this.put(collection, id, value);
+    }
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    return this.collections.get(collection)?.delete(id) ?? false;
+  }
+
+  async close(): Promise<void> {
+    this.collections.clear();
+  }
+
+  getName(): string {
+    return 'InMemoryDataStore';
+  }
+}
@@ -0,0 +1,37 @@
+import path from 'path';
+import type { IDataStore } from './IDataStore';
+import { FileDataStore } from './FileDataStore';
+import { InMemoryDataStore } from './InMemoryDataStore';
+
+/**
+ * Create data store based on environment configuration
+ *
+ * - DATA_STORE=memory: In-Memory (data is lost on restart)
+ * - Otherwise: JSON files in DATA_DIR (default: ./data)
+ *
+ * @returns IDataStore instance
+ */
+export function createDataStore(): IDataStore {
+  if (process.env.DATA_STORE === 'memory') {
+    console.log('🔧 Creating in-memory data store (DATA_STORE=memory)');
+    return new InMemoryDataStore();
+  }
+
+  const directory = path.resolve(process.env.DATA_DIR || 'data');
+  console.log(`🔧 Creating file data store in ${directory}`);
+  return new FileDataStore(directory);
+}
+
+/**
+ * Create an in-memory data store for testing
+ */
+export function createInMemoryDataStore(): IDataStore {
+  return new InMemoryDataStore();
+}
+
+/**
+ * Create a file data store in a specific directory
+ */
+export function createFileDataStore(directory: string): IDataStore {
+  return new FileDataStore(directory);
+}
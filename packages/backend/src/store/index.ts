@@ -0,0 +1,18 @@
+/**
+ * Data store exports
+ *
+ * Usage:
+ * import { dataStore } from './store';
+ *
+ * await dataStore.put('notes:genesis-10', note.id, note);
+ * await dataStore.list('notes:genesis-10');
+ */
+
+export * from './IDataStore';
+export * from './InMemoryDataStore';
+export * from './FileDataStore';
+export * from './factory';
+
+// Export singleton instance for convenience
+import { createDataStore } from './factory';
+export const dataStore = createDataStore();
@@ -0,0 +1,188 @@
+import { createHash } from 'crypto';
+import type { Response } from 'express';
+import type { TournamentResponse } from '@commentary/shared';
+import { loadTournament, loadTournamentEvent } from '../services/tournament-loader';
+
+interface StreamChannel {
+  key: string;
+  slug: string;
+  eventSlug?: string;
+  clients: Set<Response>;
+  pollTimer?: NodeJS.Timeout;
+  lastFingerprint?: string;
+  lastResponse?: TournamentResponse;
+}
+
+/**
+ * Fans tournament updates out to connected dashboards over Server-Sent Events
+ *
+ * Strategy:
+ * - One upstream poller per slug (or slug + event), shared by every connected client
+ * - Polls through the tournament loader, so cache hits cost nothing
+ * - Next poll is scheduled when the cached entry expires (dynamic TTL)
+ * - Only broadcasts when the tournament data actually changed
+ * - Poller stops as soon as the last client disconnects
+ */
+export class TournamentStreamHub {
+  private channels: Map<string, StreamChannel> = new Map();
+  private heartbeatInterval: NodeJS.Timeout;
+  private readonly HEARTBEAT_INTERVAL = 25 * 1000; // Keep proxies from closing idle connections
+  private readonly MIN_POLL_INTERVAL = 5; // seconds
+  private readonly ERROR_RETRY_INTERVAL = 30; // seconds
+
+  constructor() {
+    this.heartbeatInterval = setInterval(() => {
+      this.sendHeartbeat();
+    }, this.HEARTBEAT_INTERVAL);
+  }
+
+  /**
+   * Attach a client response to the stream for a tournament
+   * @param eventSlug - Only stream this event of the tournament
+   */
+  subscribe(slug: string, res: Response, eventSlug?: string): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx response buffering
+    });
+    res.write(': connected\n\n');
+
+    const key = eventSlug ? `${slug}/event/${eventSlug}` : slug;
+
+    let channel = this.channels.get(key);
+    if (!channel) {
+      channel = { key, slug, eventSlug, clients: new Set() };
+      this.channels.set(key, channel);
+    }
+
+    channel.clients.add(res);
+    console.log(`[STREAM] ${key} client connected (${channel.clients.size} total)`);
+
+    // Late joiners get the latest snapshot immediately
+    if (channel.lastResponse) {
+      this.send(res, 'tournament', channel.lastResponse);
+    }
+
+    // First client starts the shared poller
+    if (channel.clients.size === 1) {
+      this.poll(channel);
+    }
+
+    res.on('close', () => {
+      this.unsubscribe(key, res);
+    });
+  }
+
+  /**
+   * Get number of connected clients per tournament (and event)
+   */
+  getStats(): Record<string, number> {
+    const stats: Record<string, number> = {};
+    for (const [key, channel] of this.channels.entries()) {
+      stats[key] = channel.clients.size;
+    }
+    return stats;
+  }
+
+  /**
+   * Close all streams and stop polling
+   */
+  close(): void {
+    clearInterval(this.heartbeatInterval);
+
+    for (const channel of this.channels.values()) {
+      if (channel.pollTimer) {
+        clearTimeout(channel.pollTimer);
+      }
+      channel.clients.forEach(res => res.end());
+    }
+
+    this.channels.clear();
+  }
+
+  private unsubscribe(key: string, res: Response): void {
+    const channel = this.channels.get(key);
+    if (!channel) {
+      return;
+    }
+
+    channel.clients.delete(res);
+    console.log(`[STREAM] ${key} client disconnected (${channel.clients.size} remaining)`);
+
+    // Last client gone - stop polling upstream
+    if (channel.clients.size === 0) {
+      if (channel.pollTimer) {
+        clearTimeout(channel.pollTimer);
+      }
+      this.channels.delete(key);
+    }
+  }
+
+  private async poll(channel: StreamChannel): Promise<void> {
+    let nextPollSeconds = this.ERROR_RETRY_INTERVAL;
+
+    try {
+      const response = await this.load(channel);
+      const fingerprint = this.fingerprint(response);
+
+      if (fingerprint !== channel.lastFingerprint) {
+        channel.lastFingerprint = fingerprint;
+        channel.lastResponse = response;
+        this.broadcast(channel, 'tournament', response);
+        console.log(`[STREAM] ${channel.key} update sent to ${channel.clients.size} client(s)`);
+      }
+
+      // Poll again once the cached entry expires
+      nextPollSeconds = Math.max(this.MIN_POLL_INTERVAL, response.metadata.ttl || this.MIN_POLL_INTERVAL);
+    } catch (error) {
+      console.error(`[STREAM] ${channel.key} poll failed:`, error);
+      this.broadcast(channel, 'stream-error', {
+        error: error instanceof Error ? error.message : 'Failed to fetch tournament',
+        source: 'backend'
+      });
+    }
+
+    // Channel may have been closed while we were fetching
+    if (this.channels.get(channel.key) !== channel) {
+      return;
+    }
+
+    channel.pollTimer = setTimeout(() => {
+      this.poll(channel);
+    }, nextPollSeconds * 1000);
+  }
+
+  private async load(channel: StreamChannel): Promise<TournamentResponse> {
+    if (!channel.eventSlug) {
+      return loadTournament(channel.slug);
+    }
+
+    const response = await loadTournamentEvent(channel.slug, channel.eventSlug);
+    if (!response) {
+      throw new Error(`Event "${channel.eventSlug}" not found in tournament "${channel.slug}"`);
+    }
+    return response;
+  }
+
+  private fingerprint(response: TournamentResponse): string {
+    return createHash('sha1').update(JSON.stringify(response.data)).digest('hex');
+  }
+
+  private broadcast(channel: StreamChannel, event: string, data: unknown): void {
+    channel.clients.forEach(res => this.send(res, event, data));
+  }
+
+  private send(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private sendHeartbeat(): void {
+    for (const channel of this.channels.values()) {
+      channel.clients.forEach(res => res.write(': heartbeat\n\n'));
+    }
+  }
+}
+
+export const tournamentStreamHub = new TournamentStreamHub();
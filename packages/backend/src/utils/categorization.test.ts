@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { categorizePlayers, getTournamentTier, resolveThresholds, DEFAULT_CATEGORY_RULES } from './categorization';
+import type { CategoryRulesConfig } from './categorization';
+import type { TournamentEvent, TournamentEntry, Match, Player, PlayerRating } from '@commentary/shared';
+
+const player = (seed: number, overrides: Partial<Player> = {}): Player => ({ id: String(seed), tag: `Player ${seed}`, seed, ...overrides });
+
+const players = (count: number): Player[] => Array.from({ length: count }, (_, i) => player(i + 1));
+
+const win = (id: string, winner: Player, loser: Player, completedAt: number, overrides: Partial<Match> = {}): Match => ({
+  id,
+  round: 'Winners Round 1',
+  roundNumber: 1,
+  player1: winner,
+  player2: loser,
+  winner,
+  status: 'completed',
+  bracketName: 'Bracket',
+  completedAt,
+  ...overrides
+});
+
+const event = (participants: Player[], matches: Match[] = [], game?: string): TournamentEvent => ({
+  id: 'event-1',
+  name: 'Singles',
+  slug: 'singles',
+  game,
+  brackets: [{ id: 'bracket-1', name: 'Bracket', matches }],
+  participants,
+  currentMatches: []
+});
+
+const rating = (playerId: string, value: number, sets: number): PlayerRating => ({
+  playerId,
+  rating: value,
+  deviation: 100,
+  volatility: 0.06,
+  sets,
+  updatedAt: 0
+});
+
+const entry = (placement: number, participants = 64): TournamentEntry => ({ name: 'Event', date: '2026-01-01', placement, participants });
+
+const categorize = (
+  tournamentEvent: TournamentEvent,
+  ratings: Map<string, PlayerRating> = new Map(),
+  histories: Map<string, TournamentEntry[]> = new Map(),
+  config?: CategoryRulesConfig
+) => categorizePlayers(tournamentEvent, ratings, histories, config).players;
+
+const categoriesOf = (result: ReturnType<typeof categorize>, id: string) =>
+  result.find(categorized => categorized.player.id === id)?.categories ?? [];
+
+describe('getTournamentTier', () => {
+  it('tiers events by entrant count', () => {
+    expect(getTournamentTier(63)).toBe('local');
+    expect(getTournamentTier(64)).toBe('regional');
+    expect(getTournamentTier(256)).toBe('major');
+  });
+});
+
+describe('resolveThresholds', () => {
+  it('applies tier overrides, then game overrides regardless of case', () => {
+    const config: CategoryRulesConfig = { ...DEFAULT_CATEGORY_RULES, games: { 'Tekken 8': { contenderMaxSeed: 2 } } };
+
+    expect(resolveThresholds(config, 'local').contenderMaxSeed).toBe(4);
+    expect(resolveThresholds(config, 'local', 'tekken 8').contenderMaxSeed).toBe(2);
+    expect(resolveThresholds(config, 'regional').contenderMaxSeed).toBe(DEFAULT_CATEGORY_RULES.thresholds.contenderMaxSeed);
+  });
+});
+
+describe('categorizePlayers', () => {
+  it('lists top seeds as major contenders', () => {
+    const result = categorize(event(players(16)));
+
+    expect(result.map(categorized => categorized.player.id)).toEqual(['1', '2', '3', '4']);
+    expect(categoriesOf(result, '1')).toEqual([
+      { type: 'major_contender', label: 'Major Contender', reason: 'Seed 1 of 16, yet to play' }
+    ]);
+  });
+
+  it('lists highly rated players as major contenders', () => {
+    const participants = players(16);
+    participants[9] = player(10, { startggId: 'rated' });
+
+    const result = categorize(event(participants), new Map([['rated', rating('rated', 1950, 40)]]));
+
+    expect(categoriesOf(result, '10')).toMatchObject([{ type: 'major_contender', reason: 'Rated 1950, yet to play' }]);
+  });
+
+  it('drops eliminated players from the contenders', () => {
+    const participants = players(16);
+    const result = categorize(event(participants, [
+      win('1', participants[1], participants[0], 1, { roundNumber: -1, loserPlacement: 13 })
+    ]));
+
+    expect(categoriesOf(result, '1')).toEqual([]);
+    expect(categoriesOf(result, '2')).toMatchObject([{ reason: 'Seed 2 of 16, undefeated at 1-0' }]);
+  });
+
+  it('lists low seeds with a big upset as dark horses', () => {
+    const participants = players(16);
+    const result = categorize(event(participants, [
+      win('1', participants[11], participants[2], 1, { upsetFactor: 4 })
+    ]));
+
+    expect(categoriesOf(result, '12')).toEqual([
+      { type: 'dark_horse', label: 'Dark Horse', reason: 'Seed 12 beat seed 3 (Player 3), upset factor 4' }
+    ]);
+    expect(categoriesOf(result, '3')).toMatchObject([{ type: 'major_contender', reason: 'Seed 3 of 16, 0-1 in the event' }]);
+  });
+
+  it('lists straight losers bracket wins as a losers run', () => {
+    const participants = players(16);
+    const [, , , , fifth, sixth, seventh, eighth] = participants;
+    const result = categorize(event(participants, [
+      win('1', sixth, fifth, 1),
+      win('2', fifth, seventh, 2, { roundNumber: -1, loserPlacement: 13 }),
+      win('3', fifth, eighth, 3, { roundNumber: -2, loserPlacement: 9 })
+    ]));
+
+    expect(categoriesOf(result, '5')).toEqual([
+      { type: 'losers_run', label: 'On a Losers Run', reason: '2 straight wins in losers since falling to Player 6' }
+    ]);
+  });
+
+  it('lists players with few previous events and wins here as new contenders', () => {
+    const participants = players(16);
+    participants[15] = player(16, { startggId: 'new' });
+    const result = categorize(
+      event(participants, [
+        win('1', participants[15], participants[13], 1),
+        win('2', participants[15], participants[14], 2)
+      ]),
+      new Map(),
+      new Map([['new', [entry(20), entry(30)]]])
+    );
+
+    expect(categoriesOf(result, '16')).toMatchObject([
+      { type: 'new_contender', reason: '2 previous events, undefeated at 2-0' }
+    ]);
+  });
+
+  it('falls back to rated sets before the event when the history is unknown', () => {
+    const participants = players(16);
+    participants[15] = player(16, { startggId: 'new' });
+    const tournamentEvent = event(participants, [
+      win('1', participants[15], participants[13], 1),
+      win('2', participants[15], participants[14], 2)
+    ]);
+
+    expect(categoriesOf(categorize(tournamentEvent, new Map([['new', rating('new', 1500, 3)]])), '16')).toMatchObject([
+      { type: 'new_contender', reason: 'Only 1 rated sets before this event, undefeated at 2-0' }
+    ]);
+    expect(categoriesOf(categorize(tournamentEvent, new Map([['new', rating('new', 1500, 10)]])), '16')).toEqual([]);
+  });
+
+  it('lists players placing better in their last three events as improving', () => {
+    const participants = players(16);
+    participants[9] = player(10, { startggId: 'improving' });
+    const result = categorize(
+      event(participants),
+      new Map(),
+      new Map([['improving', [entry(33), entry(25), entry(9), entry(5), entry(4)]]])
+    );
+
+    expect(categoriesOf(result, '10')).toEqual([
+      { type: 'improving', label: 'Improving', reason: 'Placing in the top 9% over the last 3 events, up from the top 45%' }
+    ]);
+  });
+
+  it('uses game overrides for the event game', () => {
+    const config: CategoryRulesConfig = { ...DEFAULT_CATEGORY_RULES, games: { 'Tekken 8': { contenderMaxSeed: 2 } } };
+
+    const result = categorize(event(players(16), [], 'Tekken 8'), new Map(), new Map(), config);
+
+    expect(result.map(categorized => categorized.player.id)).toEqual(['1', '2']);
+  });
+});
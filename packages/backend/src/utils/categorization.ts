@@ -0,0 +1,299 @@
+import { calculateStandings } from './standings';
+import { getUniqueMatches } from './matches';
+import type {
+  TournamentEvent,
+  TournamentEntry,
+  TournamentTier,
+  Match,
+  Player,
+  PlayerRating,
+  Standing,
+  PlayerCategory,
+  PlayerCategoryType,
+  CategorizedPlayer,
+  EventCategories
+} from '@commentary/shared';
+
+/**
+ * Thresholds the category rules compare against
+ */
+export interface CategoryThresholds {
+  /** Players seeded this high or better are contenders while they're still in */
+  contenderMaxSeed: number;
+  /** Players rated at least this high are contenders while they're still in */
+  contenderMinRating: number;
+  /** Dark horses are seeded this low or worse... */
+  darkHorseMinSeed: number;
+  /** ...and won a set with at least this upset factor */
+  darkHorseMinUpsetFactor: number;
+  /** Straight losers bracket wins that make a losers run */
+  losersRunMinWins: number;
+  /** New contenders played at most this many events before (when their history is known)... */
+  newContenderMaxEvents: number;
+  /** ...or had at most this many rated sets before the event (when it isn't) */
+  newContenderMaxRatedSets: number;
+  /** New contenders won at least this many sets in the event */
+  newContenderMinWins: number;
+  /** Improving players place better on average in their last 3 events by at least this fraction */
+  improvingMinGain: number;
+}
+
+/**
+ * Category rules configuration
+ * Thresholds start from `thresholds`, then take the player's tier overrides,
+ * then the game's overrides.
+ */
+export interface CategoryRulesConfig {
+  thresholds: CategoryThresholds;
+  /** Smallest entrant count of each tier above local */
+  tierEntrants: Record<Exclude<TournamentTier, 'local'>, number>;
+  tiers: Partial<Record<TournamentTier, Partial<CategoryThresholds>>>;
+  /** Keyed by game name as start.gg reports it (case-insensitive) */
+  games: Record<string, Partial<CategoryThresholds>>;
+}
+
+/**
+ * What the rules know about a player in an event
+ */
+interface PlayerContext {
+  player: Player;
+  standing?: Standing;
+  entrants: number;
+  sets: Match[]; // Completed sets in the event, oldest first
+  wins: number;
+  losses: number;
+  rating?: PlayerRating;
+  history?: TournamentEntry[]; // Oldest first, only when the player's profile is cached
+}
+
+interface CategoryRule {
+  type: PlayerCategoryType;
+  label: string;
+  /**
+   * @returns Why the player matches, or null if they don't
+   */
+  match: (context: PlayerContext, thresholds: CategoryThresholds) => string | null;
+}
+
+export const DEFAULT_CATEGORY_RULES: CategoryRulesConfig = {
+  thresholds: {
+    contenderMaxSeed: 8,
+    contenderMinRating: 1900,
+    darkHorseMinSeed: 17,
+    darkHorseMinUpsetFactor: 3,
+    losersRunMinWins: 3,
+    newContenderMaxEvents: 3,
+    newContenderMaxRatedSets: 5,
+    newContenderMinWins: 2,
+    improvingMinGain: 0.2
+  },
+  tierEntrants: {
+    regional: 64,
+    major: 256
+  },
+  tiers: {
+    local: { contenderMaxSeed: 4, darkHorseMinSeed: 9, darkHorseMinUpsetFactor: 2, losersRunMinWins: 2 },
+    major: { contenderMaxSeed: 16, darkHorseMinSeed: 33, losersRunMinWins: 4 }
+  },
+  games: {}
+};
+
+// In priority order - a player's categories are listed in this order
+const CATEGORY_RULES: CategoryRule[] = [
+  {
+    type: 'major_contender',
+    label: 'Major Contender',
+    match: (context, thresholds) => {
+      if (!isStillIn(context)) return null;
+
+      const { seed } = context.player;
+      if (seed && seed <= thresholds.contenderMaxSeed) {
+        return `Seed ${seed} of ${context.entrants}, ${describeRecord(context)}`;
+      }
+      if (context.rating && context.rating.rating >= thresholds.contenderMinRating) {
+        return `Rated ${Math.round(context.rating.rating)}, ${describeRecord(context)}`;
+      }
+      return null;
+    }
+  },
+  {
+    type: 'dark_horse',
+    label: 'Dark Horse',
+    match: (context, thresholds) => {
+      const { seed } = context.player;
+      if (!seed || seed < thresholds.darkHorseMinSeed || !isStillIn(context)) return null;
+
+      const biggestUpset = context.sets
+        .filter(set => set.winner?.id === context.player.id)
+        .sort((a, b) => (b.upsetFactor ?? 0) - (a.upsetFactor ?? 0))[0];
+      if (!biggestUpset || (biggestUpset.upsetFactor ?? 0) < thresholds.darkHorseMinUpsetFactor) return null;
+
+      const opponent = getOpponent(biggestUpset, context.player);
+      return `Seed ${seed} beat seed ${opponent?.seed} (${opponent?.tag}), upset factor ${biggestUpset.upsetFactor}`;
+    }
+  },
+  {
+    type: 'losers_run',
+    label: 'On a Losers Run',
+    match: (context, thresholds) => {
+      if (!isStillIn(context)) return null;
+
+      const lastLossIndex = findLastIndex(context.sets, set => set.winner?.id !== context.player.id);
+      if (lastLossIndex === -1) return null;
+
+      // Sets after the last loss are all wins while the player is still in
+      const run = context.sets.slice(lastLossIndex + 1).filter(set => (set.roundNumber ?? 0) < 0).length;
+      if (run < thresholds.losersRunMinWins) return null;
+
+      const opponent = getOpponent(context.sets[lastLossIndex], context.player);
+      return `${run} straight wins in losers since falling to ${opponent?.tag || 'TBD'}`;
+    }
+  },
+  {
+    type: 'new_contender',
+    label: 'New Contender',
+    match: (context, thresholds) => {
+      if (!context.player.startggId || context.wins < thresholds.newContenderMinWins) return null;
+
+      if (context.history) {
+        if (context.history.length > thresholds.newContenderMaxEvents) return null;
+        return `${context.history.length} previous events, ${describeRecord(context)}`;
+      }
+
+      // Sets of this event are rated as soon as they complete
+      const previousSets = Math.max(0, (context.rating?.sets ?? 0) - context.sets.length);
+      if (previousSets > thresholds.newContenderMaxRatedSets) return null;
+      return previousSets === 0
+        ? `No rated sets before this event, ${describeRecord(context)}`
+        : `Only ${previousSets} rated sets before this event, ${describeRecord(context)}`;
+    }
+  },
+  {
+    type: 'improving',
+    label: 'Improving',
+    match: (context, thresholds) => {
+      const history = (context.history || []).filter(entry => entry.participants > 0 && entry.placement > 0);
+      if (history.length < 5) return null;
+
+      // Placement as a share of the field, lower is better
+      const recent = averageShare(history.slice(-3));
+      const older = averageShare(history.slice(0, -3));
+      if (recent > older * (1 - thresholds.improvingMinGain)) return null;
+
+      return `Placing in the top ${formatShare(recent)} over the last 3 events, up from the top ${formatShare(older)}`;
+    }
+  }
+];
+
+/**
+ * Categorize an event's players with the category rules
+ *
+ * @param ratings - Player ratings by start.gg player id
+ * @param histories - Placement histories by start.gg player id, for the players whose history is known
+ */
+export function categorizePlayers(
+  event: TournamentEvent,
+  ratings: Map<string, PlayerRating>,
+  histories: Map<string, TournamentEntry[]>,
+  config: CategoryRulesConfig = DEFAULT_CATEGORY_RULES
+): EventCategories {
+  const entrants = event.participants.length;
+  const tier = getTournamentTier(entrants, config);
+  const thresholds = resolveThresholds(config, tier, event.game);
+
+  const standings = new Map(calculateStandings(event).standings.map(standing => [standing.player.id, standing]));
+  const matches = getUniqueMatches(event)
+    .filter(match => match.status === 'completed')
+    .sort((a, b) => (a.completedAt || 0) - (b.completedAt || 0));
+
+  const players: CategorizedPlayer[] = [];
+
+  for (const player of event.participants) {
+    const sets = matches.filter(match => match.player1?.id === player.id || match.player2?.id === player.id);
+    const wins = sets.filter(set => set.winner?.id === player.id).length;
+
+    const context: PlayerContext = {
+      player,
+      standing: standings.get(player.id),
+      entrants,
+      sets,
+      wins,
+      losses: sets.length - wins,
+      rating: player.startggId ? ratings.get(player.startggId) : undefined,
+      history: player.startggId ? histories.get(player.startggId) : undefined
+    };
+
+    const categories: PlayerCategory[] = [];
+    for (const rule of CATEGORY_RULES) {
+      const reason = rule.match(context, thresholds);
+      if (reason) {
+        categories.push({ type: rule.type, label: rule.label, reason });
+      }
+    }
+
+    if (categories.length > 0) {
+      players.push({ player, categories });
+    }
+  }
+
+  players.sort((a, b) => (a.player.seed ?? Infinity) - (b.player.seed ?? Infinity));
+
+  return {
+    eventId: event.id,
+    eventName: event.name,
+    tier,
+    game: event.game,
+    players
+  };
+}
+
+/**
+ * Get an event's tier from its entrant count
+ */
+export function getTournamentTier(entrants: number, config: CategoryRulesConfig = DEFAULT_CATEGORY_RULES): TournamentTier {
+  if (entrants >= config.tierEntrants.major) return 'major';
+  if (entrants >= config.tierEntrants.regional) return 'regional';
+  return 'local';
+}
+
+/**
+ * Get the thresholds for a tier and game: defaults, then tier overrides, then game overrides
+ */
+export function resolveThresholds(config: CategoryRulesConfig, tier: TournamentTier, game?: string): CategoryThresholds {
+  const gameKey = game && Object.keys(config.games).find(key => key.toLowerCase() === game.toLowerCase());
+
+  return {
+    ...config.thresholds,
+    ...config.tiers[tier],
+    ...(gameKey ? config.games[gameKey] : {})
+  };
+}
+
+function isStillIn(context: PlayerContext): boolean {
+  return context.standing?.status !== 'eliminated';
+}
+
+function describeRecord(context: PlayerContext): string {
+  if (context.wins + context.losses === 0) return 'yet to play';
+  if (context.losses === 0) return `undefeated at ${context.wins}-0`;
+  return `${context.wins}-${context.losses} in the event`;
+}
+
+function getOpponent(match: Match, player: Player): Player | undefined {
+  return match.player1?.id === player.id ? match.player2 : match.player1;
+}
+
+function averageShare(entries: TournamentEntry[]): number {
+  return entries.reduce((sum, entry) => sum + entry.placement / entry.participants, 0) / entries.length;
+}
+
+function formatShare(share: number): string {
+  return `${Math.max(1, Math.round(share * 100))}%`;
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
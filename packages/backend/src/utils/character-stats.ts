@@ -0,0 +1,113 @@
+import { getUniqueMatches } from './matches';
+import type {
+  TournamentEvent,
+  Character,
+  CharacterUsage,
+  EventCharacterUsage,
+  EventCharacterStats,
+  PlayerCharacterStats
+} from '@commentary/shared';
+
+/**
+ * One game a player played with a character
+ */
+export interface CharacterGame {
+  character: Character;
+  won: boolean;
+}
+
+/**
+ * Aggregate a player's games into per-character usage, most played first
+ */
+export function aggregateCharacterUsage(games: CharacterGame[]): CharacterUsage[] {
+  const usage = new Map<string, CharacterUsage>();
+
+  for (const game of games) {
+    const entry = usage.get(game.character.id) || { character: game.character, games: 0, wins: 0, winRate: 0 };
+    entry.games++;
+    if (game.won) {
+      entry.wins++;
+    }
+    usage.set(game.character.id, entry);
+  }
+
+  return Array.from(usage.values())
+    .map(entry => ({ ...entry, winRate: entry.wins / entry.games }))
+    .sort((a, b) => b.games - a.games || b.wins - a.wins);
+}
+
+/**
+ * Calculate character usage across an event: which characters are picked how
+ * often and how well they do, plus every player's picks
+ *
+ * Only games with a reported character count - start.gg leaves character
+ * selections out unless the organizer reports them.
+ */
+export function calculateEventCharacterStats(event: TournamentEvent): EventCharacterStats {
+  const playerGames = new Map<string, { tag?: string; games: CharacterGame[] }>();
+  let games = 0;
+
+  for (const match of getUniqueMatches(event)) {
+    for (const game of match.games || []) {
+      let hasSelection = false;
+
+      ([[match.player1, game.player1Character], [match.player2, game.player2Character]] as const).forEach(([player, character]) => {
+        if (!player || !character) return;
+
+        hasSelection = true;
+        const entry = playerGames.get(player.id) || { tag: player.tag, games: [] };
+        entry.games.push({ character, won: !!game.winnerId && game.winnerId === player.id });
+        playerGames.set(player.id, entry);
+      });
+
+      if (hasSelection) {
+        games++;
+      }
+    }
+  }
+
+  const players: PlayerCharacterStats[] = Array.from(playerGames.entries()).map(([playerId, entry]) => ({
+    playerId,
+    tag: entry.tag,
+    games: entry.games.length,
+    characters: aggregateCharacterUsage(entry.games)
+  }));
+
+  return {
+    eventId: event.id,
+    eventName: event.name,
+    games,
+    characters: aggregateEventUsage(players),
+    players: players.sort((a, b) => b.games - a.games)
+  };
+}
+
+/**
+ * Combine players' character usage into event-wide representation
+ */
+function aggregateEventUsage(players: PlayerCharacterStats[]): EventCharacterUsage[] {
+  const usage = new Map<string, EventCharacterUsage>();
+  let picks = 0;
+
+  for (const player of players) {
+    for (const character of player.characters) {
+      const entry = usage.get(character.character.id) || {
+        character: character.character,
+        games: 0,
+        wins: 0,
+        winRate: 0,
+        players: 0,
+        pickRate: 0
+      };
+      entry.games += character.games;
+      entry.wins += character.wins;
+      entry.players++;
+      usage.set(character.character.id, entry);
+      picks += character.games;
+    }
+  }
+
+  return Array.from(usage.values())
+    .map(entry => ({ ...entry, winRate: entry.wins / entry.games, pickRate: entry.games / picks }))
+    .sort((a, b) => b.games - a.games || b.players - a.players);
+}
@@ -0,0 +1,15 @@
+import type { TournamentEvent, Match } from '@commentary/shared';
+
+/**
+ * Get an event's sets, each once
+ * Sets can show up in more than one bracket of an event.
+ */
+export function getUniqueMatches(event: TournamentEvent): Match[] {
+  const matches = new Map<string, Match>();
+
+  for (const match of event.brackets.flatMap(bracket => bracket.matches)) {
+    matches.set(match.id, match);
+  }
+
+  return Array.from(matches.values());
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { createRating, updateRating, getWinProbability, DEFAULT_RATING, DEFAULT_DEVIATION } from './rating';
+import type { PlayerRating } from '@commentary/shared';
+
+const rating = (playerId: string, value: number, deviation: number): PlayerRating => ({
+  ...createRating(playerId),
+  rating: value,
+  deviation
+});
+
+describe('updateRating', () => {
+  it('matches the worked example of the Glicko-2 paper', () => {
+    const player = rating('player', 1500, 200);
+
+    const updated = updateRating(player, [
+      { opponent: rating('a', 1400, 30), score: 1 },
+      { opponent: rating('b', 1550, 100), score: 0 },
+      { opponent: rating('c', 1700, 300), score: 0 }
+    ]);
+
+    expect(updated.rating).toBeCloseTo(1464.06, 1);
+    expect(updated.deviation).toBeCloseTo(151.52, 1);
+    expect(updated.volatility).toBeCloseTo(0.06, 4);
+    expect(updated.sets).toBe(3);
+  });
+
+  it('leaves a rating without sets unchanged', () => {
+    const player = rating('player', 1600, 80);
+
+    expect(updateRating(player, [])).toBe(player);
+  });
+
+  it('moves the winner up and the loser down', () => {
+    const winner = createRating('winner');
+    const loser = createRating('loser');
+
+    expect(updateRating(winner, [{ opponent: loser, score: 1 }]).rating).toBeGreaterThan(DEFAULT_RATING);
+    expect(updateRating(loser, [{ opponent: winner, score: 0 }]).rating).toBeLessThan(DEFAULT_RATING);
+    expect(updateRating(winner, [{ opponent: loser, score: 1 }]).deviation).toBeLessThan(DEFAULT_DEVIATION);
+  });
+});
+
+describe('getWinProbability', () => {
+  it('is even between equal ratings', () => {
+    expect(getWinProbability(createRating('a'), createRating('b'))).toBeCloseTo(0.5, 10);
+  });
+
+  it('favours the higher rating and adds up to 1 for both players', () => {
+    const stronger = rating('stronger', 1800, 50);
+    const weaker = rating('weaker', 1500, 50);
+
+    const probability = getWinProbability(stronger, weaker);
+
+    expect(probability).toBeGreaterThan(0.8);
+    expect(probability + getWinProbability(weaker, stronger)).toBeCloseTo(1, 10);
+  });
+
+  it('is less certain when deviations are wide', () => {
+    const confident = getWinProbability(rating('a', 1800, 50), rating('b', 1500, 50));
+    const uncertain = getWinProbability(rating('a', 1800, 350), rating('b', 1500, 350));
+
+    expect(uncertain).toBeLessThan(confident);
+    expect(uncertain).toBeGreaterThan(0.5);
+  });
+});
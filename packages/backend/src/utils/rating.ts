@@ -0,0 +1,152 @@
+import type { PlayerRating } from '@commentary/shared';
+
+/**
+ * Glicko-2 rating system
+ * http://www.glicko.net/glicko/glicko2.pdf
+ *
+ * Ratings are kept on the Glicko scale (1500 / 350) and converted to the
+ * Glicko-2 scale for the calculations.
+ */
+
+/**
+ * One set a player played in a rating period
+ */
+export interface RatedResult {
+  opponent: PlayerRating;
+  score: number; // 1 = won, 0 = lost
+}
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+
+// Constrains how fast volatility changes, 0.3-1.2 per the paper
+const TAU = 0.5;
+const SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+/**
+ * A rating for a player nobody has rated yet
+ */
+export function createRating(playerId: string, tag?: string): PlayerRating {
+  return {
+    playerId,
+    tag,
+    rating: DEFAULT_RATING,
+    deviation: DEFAULT_DEVIATION,
+    volatility: DEFAULT_VOLATILITY,
+    sets: 0,
+    updatedAt: Date.now()
+  };
+}
+
+/**
+ * Update a rating with the sets of one rating period
+ * Opponents' ratings must be from before the period
+ */
+export function updateRating(player: PlayerRating, results: RatedResult[]): PlayerRating {
+  if (results.length === 0) {
+    return player;
+  }
+
+  const mu = toMu(player.rating);
+  const phi = toPhi(player.deviation);
+
+  let varianceInverse = 0;
+  let improvement = 0;
+
+  for (const result of results) {
+    const opponentMu = toMu(result.opponent.rating);
+    const opponentG = g(toPhi(result.opponent.deviation));
+    const expected = expectedScore(mu, opponentMu, opponentG);
+
+    varianceInverse += opponentG * opponentG * expected * (1 - expected);
+    improvement += opponentG * (result.score - expected);
+  }
+
+  const variance = 1 / varianceInverse;
+  const delta = variance * improvement;
+  const volatility = updateVolatility(phi, player.volatility, variance, delta);
+
+  const prePeriodPhi = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (prePeriodPhi * prePeriodPhi) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    ...player,
+    rating: newMu * SCALE + DEFAULT_RATING,
+    deviation: newPhi * SCALE,
+    volatility,
+    sets: player.sets + results.length,
+    updatedAt: Date.now()
+  };
+}
+
+/**
+ * Probability that `player` beats `opponent`
+ * Both deviations widen the prediction towards 50%.
+ */
+export function getWinProbability(player: PlayerRating, opponent: PlayerRating): number {
+  const combinedPhi = Math.sqrt(toPhi(player.deviation) ** 2 + toPhi(opponent.deviation) ** 2);
+  return expectedScore(toMu(player.rating), toMu(opponent.rating), g(combinedPhi));
+}
+
+function toMu(rating: number): number {
+  return (rating - DEFAULT_RATING) / SCALE;
+}
+
+function toPhi(deviation: number): number {
+  return deviation / SCALE;
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, opponentMu: number, opponentG: number): number {
+  return 1 / (1 + Math.exp(-opponentG * (mu - opponentMu)));
+}
+
+/**
+ * New volatility via the Illinois algorithm (step 5 of the paper)
+ */
+function updateVolatility(phi: number, volatility: number, variance: number, delta: number): number {
+  const a = Math.log(volatility * volatility);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + variance + ex;
+    return ex * (delta * delta - d) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + variance) {
+    upper = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) {
+      k++;
+    }
+    upper = a - k * TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+
+  while (Math.abs(upper - lower) > CONVERGENCE_TOLERANCE) {
+    const next = lower + (lower - upper) * fLower / (fUpper - fLower);
+    const fNext = f(next);
+
+    if (fNext * fUpper < 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower = fLower / 2;
+    }
+
+    upper = next;
+    fUpper = fNext;
+  }
+
+  return Math.exp(lower / 2);
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getPlacementTier, getPlacementTiers, getTierEnd, calculateUpsetFactor } from './seeding';
+
+describe('getPlacementTier', () => {
+  it('gives the top four their own tiers', () => {
+    expect([1, 2, 3, 4].map(getPlacementTier)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('groups placements past fourth into shared tiers', () => {
+    expect([5, 6, 7, 8, 9, 12, 13, 16, 17, 24, 25, 33].map(getPlacementTier))
+      .toEqual([4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 10]);
+  });
+});
+
+describe('getPlacementTiers', () => {
+  it('lists the first placement of each tier up to the entrant count', () => {
+    expect(getPlacementTiers(16)).toEqual([1, 2, 3, 4, 5, 7, 9, 13]);
+    expect(getPlacementTiers(17)).toEqual([1, 2, 3, 4, 5, 7, 9, 13, 17]);
+  });
+
+  it('handles tiny events', () => {
+    expect(getPlacementTiers(1)).toEqual([1]);
+    expect(getPlacementTiers(0)).toEqual([]);
+  });
+});
+
+describe('getTierEnd', () => {
+  it('gives the last placement of the tier', () => {
+    expect([1, 4, 5, 7, 9, 13, 25].map(getTierEnd)).toEqual([1, 4, 6, 8, 12, 16, 32]);
+  });
+});
+
+describe('calculateUpsetFactor', () => {
+  it('counts the tiers between the winner and loser seeds', () => {
+    expect(calculateUpsetFactor(9, 2)).toBe(5);
+    expect(calculateUpsetFactor(3, 2)).toBe(1);
+  });
+
+  it('is 0 when the better seed won', () => {
+    expect(calculateUpsetFactor(2, 9)).toBe(0);
+  });
+
+  it('is 0 between seeds that share a tier', () => {
+    expect(calculateUpsetFactor(6, 5)).toBe(0);
+    expect(calculateUpsetFactor(12, 9)).toBe(0);
+  });
+});
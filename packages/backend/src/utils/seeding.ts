@@ -0,0 +1,80 @@
+/**
+ * Seeding helpers shared by upset detection and standings
+ *
+ * Double elimination brackets finish players in placement tiers:
+ * 1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, ...
+ * A seed is expected to finish in the tier it falls into, so seeds 5 and 6
+ * share a tier, as do seeds 9 through 12.
+ */
+
+/**
+ * Get the zero-based placement tier of a seed or placement
+ * e.g. 1 -> 0, 2 -> 1, 3 -> 2, 4 -> 3, 5-6 -> 4, 7-8 -> 5, 9-12 -> 6
+ */
+export function getPlacementTier(seedOrPlacement: number): number {
+  let tier = 0;
+  let tierStart = 1;
+
+  while (true) {
+    const nextTierStart = getNextTierStart(tierStart);
+    if (seedOrPlacement < nextTierStart) {
+      return tier;
+    }
+    tierStart = nextTierStart;
+    tier++;
+  }
+}
+
+/**
+ * Get the first placement of each tier up to the given entrant count
+ * e.g. 16 -> [1, 2, 3, 4, 5, 7, 9, 13]
+ */
+export function getPlacementTiers(entrants: number): number[] {
+  const tiers: number[] = [];
+
+  for (let tierStart = 1; tierStart <= entrants; tierStart = getNextTierStart(tierStart)) {
+    tiers.push(tierStart);
+  }
+
+  return tiers;
+}
+
+/**
+ * Get the last placement of the tier a placement falls into
+ * e.g. 4 -> 4, 7 -> 8, 9 -> 12
+ */
+export function getTierEnd(placement: number): number {
+  let tierStart = 1;
+
+  while (getNextTierStart(tierStart) <= placement) {
+    tierStart = getNextTierStart(tierStart);
+  }
+
+  return getNextTierStart(tierStart) - 1;
+}
+
+/**
+ * Calculate how big an upset a result is
+ *
+ * The upset factor is the number of placement tiers between the loser's seed
+ * and the winner's (worse) seed - e.g. seed 9 beating seed 2 is an upset
+ * factor of 5. Results where the better seed won are 0.
+ */
+export function calculateUpsetFactor(winnerSeed: number, loserSeed: number): number {
+  if (winnerSeed <= loserSeed) {
+    return 0;
+  }
+
+  return getPlacementTier(winnerSeed) - getPlacementTier(loserSeed);
+}
+
+function getNextTierStart(tierStart: number): number {
+  if (tierStart < 5) {
+    return tierStart + 1;
+  }
+
+  // Tiers alternate between 2^n + 1 and 3 * 2^(n-1) + 1
+  const size = tierStart - 1;
+  const isPowerOfTwo = (size & (size - 1)) === 0;
+  return isPowerOfTwo ? size * 1.5 + 1 : (size / 3) * 4 + 1;
+}
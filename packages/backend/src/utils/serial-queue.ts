@@ -0,0 +1,29 @@
+/**
+ * Run async work one call at a time per key
+ *
+ * Calls with the same key run in call order, each after the previous one
+ * settled, so read-modify-write updates of shared state don't overwrite
+ * each other. A failed call doesn't stop the ones queued after it.
+ */
+export class SerialQueue {
+  private tails: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * Run `fn` for `key` once every earlier call for the key settled
+   */
+  async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const result = previous.then(fn);
+
+    // The tail never rejects - a failure is reported to its own caller only
+    const tail = result.catch(() => undefined);
+    this.tails.set(key, tail);
+    tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+
+    return result;
+  }
+}
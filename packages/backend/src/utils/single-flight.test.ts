@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SingleFlight } from './single-flight';
+
+/**
+ * Promise whose settling is up to the test
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('SingleFlight', () => {
+  it('runs concurrent calls of a key once and shares the result', async () => {
+    const flight = new SingleFlight<string>();
+    const pending = deferred<string>();
+    const fn = vi.fn(() => pending.promise);
+
+    const first = flight.do('key', fn);
+    const second = flight.do('key', fn);
+    pending.resolve('result');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['result', 'result']);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares an error with every caller', async () => {
+    const flight = new SingleFlight<string>();
+    const pending = deferred<string>();
+
+    const first = flight.do('key', () => pending.promise);
+    const second = flight.do('key', () => Promise.resolve('never'));
+    pending.reject(new Error('failed'));
+
+    await expect(first).rejects.toThrow('failed');
+    await expect(second).rejects.toThrow('failed');
+  });
+
+  it('runs calls of different keys separately', async () => {
+    const flight = new SingleFlight<string>();
+
+    const results = await Promise.all([
+      flight.do('a', async () => 'a'),
+      flight.do('b', async () => 'b')
+    ]);
+
+    expect(results).toEqual(['a', 'b']);
+  });
+
+  it('releases the key once the call settles', async () => {
+    const flight = new SingleFlight<number>();
+    const fn = vi.fn(async () => 1);
+
+    const call = flight.do('key', fn);
+    expect(flight.isInFlight('key')).toBe(true);
+    await call;
+    expect(flight.isInFlight('key')).toBe(false);
+
+    await flight.do('key', fn);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('releases the key after a failure', async () => {
+    const flight = new SingleFlight<number>();
+
+    await expect(flight.do('key', async () => { throw new Error('failed'); })).rejects.toThrow('failed');
+
+    expect(flight.isInFlight('key')).toBe(false);
+    await expect(flight.do('key', async () => 2)).resolves.toBe(2);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Deduplicate concurrent async work by key
+ *
+ * While a call for a key is in flight, further calls with the same key
+ * join it and receive the same result (or error) instead of starting
+ * their own. The key is released as soon as the call settles.
+ */
+export class SingleFlight<T> {
+  private inFlight: Map<string, Promise<T>> = new Map();
+
+  /**
+   * Run `fn` for `key`, or join the call already in flight for it
+   */
+  async do(key: string, fn: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const promise = fn().finally(() => {
+      this.inFlight.delete(key);
+    });
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Check if a call is currently in flight for a key
+   */
+  isInFlight(key: string): boolean {
+    return this.inFlight.has(key);
+  }
+}
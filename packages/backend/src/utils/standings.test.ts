@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { calculateStandings } from './standings';
+import type { TournamentEvent, Match, Player } from '@commentary/shared';
+
+const player = (id: string): Player => ({ id, tag: `Player ${id}`, seed: Number(id) });
+
+const players = (count: number): Player[] => Array.from({ length: count }, (_, i) => player(String(i + 1)));
+
+const match = (id: string, player1: Player, player2: Player, overrides: Partial<Match> = {}): Match => ({
+  id,
+  round: 'Winners Round 1',
+  player1,
+  player2,
+  status: 'pending',
+  bracketName: 'Bracket',
+  ...overrides
+});
+
+const event = (participants: Player[], matches: Match[]): TournamentEvent => ({
+  id: 'event-1',
+  name: 'Singles',
+  slug: 'singles',
+  brackets: [{ id: 'bracket-1', name: 'Bracket', matches }],
+  participants,
+  currentMatches: []
+});
+
+describe('calculateStandings', () => {
+  it('guarantees everyone the tier of the players left before sets are played', () => {
+    const standings = calculateStandings(event(players(8), []));
+
+    expect(standings.complete).toBe(false);
+    expect(standings.standings.map(standing => standing.player.id)).toEqual(['1', '2', '3', '4', '5', '6', '7', '8']);
+    for (const standing of standings.standings) {
+      expect(standing).toMatchObject({ status: 'active', bestPlacement: 1, worstPlacement: 7, guaranteedTop: 8 });
+    }
+  });
+
+  it('eliminates a player whose last set was a loss with a loser placement', () => {
+    const [p1, p2, p3, p4] = players(4);
+    const standings = calculateStandings(event([p1, p2, p3, p4], [
+      match('1', p3, p4, { status: 'completed', winner: p3, loserPlacement: 4, completedAt: 1 })
+    ]));
+
+    expect(standings.standings.find(standing => standing.player.id === '4')).toMatchObject({
+      status: 'eliminated',
+      placement: 4,
+      worstPlacement: 4,
+      guaranteedTop: 4
+    });
+  });
+
+  it('keeps a player in after a loss that sends them to losers', () => {
+    const [p1, p2] = players(2);
+    const standings = calculateStandings(event([p1, p2], [
+      match('1', p1, p2, { status: 'completed', winner: p1, completedAt: 1 })
+    ]));
+
+    expect(standings.standings.map(standing => standing.status)).toEqual(['active', 'active']);
+  });
+
+  it('limits the worst placement of a player by their next elimination set', () => {
+    const [p1, p2, p3, p4] = players(4);
+    const standings = calculateStandings(event([p1, p2, p3, p4], [
+      match('1', p3, p4, { status: 'pending', loserPlacement: 3 })
+    ]));
+
+    expect(standings.standings.map(standing => [standing.player.id, standing.worstPlacement])).toEqual([
+      ['3', 3],
+      ['4', 3],
+      ['1', 4],
+      ['2', 4]
+    ]);
+  });
+
+  it('crowns the last player standing once every set is complete', () => {
+    const [p1, p2] = players(2);
+    const standings = calculateStandings(event([p1, p2], [
+      match('1', p1, p2, { round: 'Grand Final', status: 'completed', winner: p2, loserPlacement: 2, completedAt: 1 })
+    ]));
+
+    expect(standings.complete).toBe(true);
+    expect(standings.standings).toMatchObject([
+      { player: { id: '2' }, status: 'winner', placement: 1, guaranteedTop: 1 },
+      { player: { id: '1' }, status: 'eliminated', placement: 2, guaranteedTop: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import type { TournamentEvent, Match, Player, Standing, EventStandings } from '@commentary/shared';
+import { getPlacementTiers, getTierEnd } from './seeding';
+
+/**
+ * Calculate the final and projected placements of an event's entrants
+ *
+ * A player is eliminated once their last set was a loss with a loser placement
+ * (losers bracket, grand finals) and they have nothing left to play. They
+ * finish at that set's loser placement.
+ *
+ * Players still in can win the event (double elimination) and are guaranteed
+ * the placement tier of the number of players left - e.g. with 8 left they
+ * finish 1st-7th. A player whose next set eliminates its loser can't finish
+ * below that set's loser placement. Placement tiers share a placement
+ * (7th covers 7-8), so `guaranteedTop` is the last spot of the worst tier.
+ */
+export function calculateStandings(event: TournamentEvent): EventStandings {
+  const matches = event.brackets.flatMap(bracket => bracket.matches);
+  const complete = matches.length > 0 && matches.every(match => match.status === 'completed');
+
+  const standings: Standing[] = [];
+  const remaining: Player[] = [];
+
+  for (const player of event.participants) {
+    const elimination = findElimination(player, matches);
+    if (elimination) {
+      const placement = elimination.loserPlacement!;
+      standings.push({ player, status: 'eliminated', placement, bestPlacement: placement, worstPlacement: placement, guaranteedTop: getTierEnd(placement) });
+    } else {
+      remaining.push(player);
+    }
+  }
+
+  const remainingWorst = getTierStart(remaining.length);
+
+  for (const player of remaining) {
+    if (complete && remaining.length === 1) {
+      standings.push({ player, status: 'winner', placement: 1, bestPlacement: 1, worstPlacement: 1, guaranteedTop: 1 });
+      continue;
+    }
+
+    const worstPlacement = matches
+      .filter(match => match.status !== 'completed' && match.loserPlacement && isInMatch(player, match))
+      .reduce<number>((worst, match) => Math.min(worst, match.loserPlacement!), remainingWorst);
+
+    standings.push({ player, status: 'active', bestPlacement: 1, worstPlacement, guaranteedTop: getTierEnd(worstPlacement) });
+  }
+
+  standings.sort((a, b) =>
+    a.worstPlacement - b.worstPlacement ||
+    a.bestPlacement - b.bestPlacement ||
+    (a.player.seed ?? Infinity) - (b.player.seed ?? Infinity)
+  );
+
+  return {
+    eventId: event.id,
+    eventName: event.name,
+    entrants: event.participants.length,
+    complete,
+    standings
+  };
+}
+
+/**
+ * Find the set that eliminated a player, if they're out
+ */
+function findElimination(player: Player, matches: Match[]): Match | undefined {
+  const playerMatches = matches.filter(match => isInMatch(player, match));
+
+  if (playerMatches.some(match => match.status !== 'completed')) {
+    return undefined;
+  }
+
+  const lastMatch = playerMatches
+    .sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0))[0];
+
+  if (!lastMatch?.winner || lastMatch.winner.id === player.id || !lastMatch.loserPlacement) {
+    return undefined;
+  }
+
+  return lastMatch;
+}
+
+function isInMatch(player: Player, match: Match): boolean {
+  return match.player1?.id === player.id || match.player2?.id === player.id;
+}
+
+/**
+ * First placement of the tier a count of players falls into (8 -> 7, 12 -> 9)
+ */
+function getTierStart(players: number): number {
+  return getPlacementTiers(players).pop() ?? 1;
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { diffTournaments } from './tournament-diff';
+import type { Tournament, TournamentEvent, Bracket, Match, Player } from '@commentary/shared';
+
+const DETECTED_AT = 1_700_000_000_000;
+
+const player = (id: string): Player => ({ id, tag: `Player ${id}` });
+
+const match = (id: string, overrides: Partial<Match> = {}): Match => ({
+  id,
+  round: 'Winners Round 1',
+  player1: player('1'),
+  player2: player('2'),
+  status: 'pending',
+  bracketName: 'Pool A1',
+  ...overrides
+});
+
+const bracket = (id: string, matches: Match[]): Bracket => ({ id, name: `Pool ${id}`, matches });
+
+const event = (brackets: Bracket[], participants: Player[] = [player('1'), player('2')]): TournamentEvent => ({
+  id: 'event-1',
+  name: 'Singles',
+  slug: 'singles',
+  brackets,
+  participants,
+  currentMatches: []
+});
+
+const tournament = (events: TournamentEvent[]): Tournament => ({
+  id: 'tournament-1',
+  name: 'Tournament',
+  slug: 'tournament',
+  url: 'https://www.start.gg/tournament/tournament',
+  events
+});
+
+describe('diffTournaments', () => {
+  it('reports nothing for identical snapshots', () => {
+    const snapshot = tournament([event([bracket('a', [match('1')])])]);
+
+    expect(diffTournaments(snapshot, snapshot, DETECTED_AT)).toEqual([]);
+  });
+
+  it('reports a set that started', () => {
+    const previous = tournament([event([bracket('a', [match('1')])])]);
+    const next = tournament([event([bracket('a', [match('1', { status: 'in_progress', startedAt: 42 })])])]);
+
+    const changes = diffTournaments(previous, next, DETECTED_AT);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      id: `match_started:1:${DETECTED_AT}`,
+      type: 'match_started',
+      eventId: 'event-1',
+      occurredAt: 42
+    });
+  });
+
+  it('reports a set that completed with its previous score', () => {
+    const previous = tournament([event([bracket('a', [
+      match('1', { status: 'in_progress', score: { player1Score: 1, player2Score: 1 } })
+    ])])]);
+    const next = tournament([event([bracket('a', [
+      match('1', { status: 'completed', winner: player('1'), score: { player1Score: 2, player2Score: 1 } })
+    ])])]);
+
+    const changes = diffTournaments(previous, next, DETECTED_AT);
+
+    expect(changes.map(change => change.type)).toEqual(['match_completed']);
+    expect(changes[0].previousScore).toEqual({ player1Score: 1, player2Score: 1 });
+  });
+
+  it('reports a score change of a set in progress', () => {
+    const previous = tournament([event([bracket('a', [
+      match('1', { status: 'in_progress', score: { player1Score: 0, player2Score: 0 } })
+    ])])]);
+    const next = tournament([event([bracket('a', [
+      match('1', { status: 'in_progress', score: { player1Score: 1, player2Score: 0 } })
+    ])])]);
+
+    expect(diffTournaments(previous, next, DETECTED_AT).map(change => change.type)).toEqual(['score_changed']);
+  });
+
+  it('reports a set that started and completed between snapshots as completed only', () => {
+    const previous = tournament([event([bracket('a', [match('1')])])]);
+    const next = tournament([event([bracket('a', [match('1', { status: 'completed', winner: player('2') })])])]);
+
+    expect(diffTournaments(previous, next, DETECTED_AT).map(change => change.type)).toEqual(['match_completed']);
+  });
+
+  it('reports new entrants and brackets', () => {
+    const previous = tournament([event([bracket('a', [])])]);
+    const next = tournament([event(
+      [bracket('a', []), bracket('b', [])],
+      [player('1'), player('2'), player('3')]
+    )]);
+
+    const changes = diffTournaments(previous, next, DETECTED_AT);
+
+    expect(changes.map(change => change.type)).toEqual(['bracket_added', 'entrant_added']);
+    expect(changes[0].bracket).toEqual({ id: 'b', name: 'Pool b' });
+    expect(changes[1].player).toEqual(player('3'));
+  });
+
+  it('does not report the sets of a bracket it sees for the first time', () => {
+    const previous = tournament([event([bracket('a', [])])]);
+    const next = tournament([event([
+      bracket('a', []),
+      bracket('b', [match('1', { status: 'completed', winner: player('1') })])
+    ])]);
+
+    expect(diffTournaments(previous, next, DETECTED_AT).map(change => change.type)).toEqual(['bracket_added']);
+  });
+
+  it('does not report the sets of a bracket that had none before', () => {
+    const previous = tournament([event([bracket('a', [])])]);
+    const next = tournament([event([bracket('a', [
+      match('1', { status: 'completed', winner: player('1') }),
+      match('2', { status: 'in_progress' })
+    ])])]);
+
+    expect(diffTournaments(previous, next, DETECTED_AT)).toEqual([]);
+  });
+
+  it('only reports the brackets of an event it sees for the first time', () => {
+    const previous = tournament([]);
+    const next = tournament([event([bracket('a', [match('1', { status: 'in_progress' })])])]);
+
+    expect(diffTournaments(previous, next, DETECTED_AT).map(change => change.type)).toEqual(['bracket_added']);
+  });
+});
@@ -0,0 +1,126 @@
+import type { Tournament, TournamentEvent, TournamentChange, TournamentChangeType, Match } from '@commentary/shared';
+
+/**
+ * Compute a structured diff between two tournament snapshots
+ *
+ * Detects per event:
+ * - Brackets (phase groups) that appeared
+ * - Entrants that appeared
+ * - Matches that started, changed score or completed
+ *
+ * Matches are only compared for brackets present in both snapshots with
+ * matches in the previous one, so a bracket that failed to load once (or
+ * loaded empty) doesn't flood the feed with every set when it reappears.
+ */
+export function diffTournaments(
+  previous: Tournament,
+  next: Tournament,
+  detectedAt: number = Date.now()
+): TournamentChange[] {
+  const changes: TournamentChange[] = [];
+  const previousEvents = new Map(previous.events.map(event => [event.id, event]));
+
+  for (const event of next.events) {
+    const previousEvent = previousEvents.get(event.id);
+    changes.push(...diffEvents(previousEvent, event, detectedAt));
+  }
+
+  return changes;
+}
+
+function diffEvents(
+  previous: TournamentEvent | undefined,
+  next: TournamentEvent,
+  detectedAt: number
+): TournamentChange[] {
+  const changes: TournamentChange[] = [];
+
+  const createChange = (type: TournamentChangeType, subjectId: string, extra: Partial<TournamentChange> = {}): TournamentChange => ({
+    id: `${type}:${subjectId}:${detectedAt}`,
+    type,
+    eventId: next.id,
+    eventName: next.name,
+    detectedAt,
+    ...extra,
+  });
+
+  // New brackets
+  const previousBrackets = new Map((previous?.brackets || []).map(bracket => [bracket.id, bracket]));
+  for (const bracket of next.brackets) {
+    if (!previousBrackets.has(bracket.id)) {
+      changes.push(createChange('bracket_added', bracket.id, {
+        bracket: { id: bracket.id, name: bracket.name },
+      }));
+    }
+  }
+
+  // A brand new event has no baseline for entrants or matches
+  if (!previous) {
+    return changes;
+  }
+
+  // New entrants
+  const previousParticipantIds = new Set(previous.participants.map(player => player.id));
+  for (const player of next.participants) {
+    if (!previousParticipantIds.has(player.id)) {
+      changes.push(createChange('entrant_added', player.id, { player }));
+    }
+  }
+
+  // Match state transitions, only within brackets we've seen sets of before
+  for (const bracket of next.brackets) {
+    const previousBracket = previousBrackets.get(bracket.id);
+    if (!previousBracket || previousBracket.matches.length === 0) {
+      continue;
+    }
+
+    const previousMatches = new Map(previousBracket.matches.map(match => [match.id, match]));
+    for (const match of bracket.matches) {
+      changes.push(...diffMatch(previousMatches.get(match.id), match, createChange));
+    }
+  }
+
+  return changes;
+}
+
+function diffMatch(
+  previous: Match | undefined,
+  next: Match,
+  createChange: (type: TournamentChangeType, subjectId: string, extra?: Partial<TournamentChange>) => TournamentChange
+): TournamentChange[] {
+  const changes: TournamentChange[] = [];
+  const previousStatus = previous?.status ?? 'pending';
+
+  if (next.status === 'in_progress' && previousStatus === 'pending') {
+    changes.push(createChange('match_started', next.id, {
+      match: next,
+      occurredAt: next.startedAt || next.updatedAt,
+    }));
+  }
+
+  if (next.status === 'completed' && previousStatus !== 'completed') {
+    changes.push(createChange('match_completed', next.id, {
+      match: next,
+      previousScore: previous?.score,
+      occurredAt: next.completedAt || next.updatedAt,
+    }));
+  } else if (previous && hasScoreChanged(previous, next)) {
+    // Score corrections after completion are reported as score changes too
+    changes.push(createChange('score_changed', next.id, {
+      match: next,
+      previousScore: previous.score,
+      occurredAt: next.updatedAt,
+    }));
+  }
+
+  return changes;
+}
+
+function hasScoreChanged(previous: Match, next: Match): boolean {
+  if (!next.score) {
+    return false;
+  }
+
+  return previous.score?.player1Score !== next.score.player1Score ||
+    previous.score?.player2Score !== next.score.player2Score;
+}
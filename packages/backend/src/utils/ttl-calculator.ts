@@ -1,4 +1,8 @@
-import type { Tournament } from '@commentary/shared';
+import type { Tournament, TournamentEvent, Bracket, Match } from '@commentary/shared';
+
+const MIN_EVENT_TTL = 120; // 2 minutes
+const MIN_METADATA_TTL = 600; // 10 minutes
+const MAX_STREAM_QUEUE_TTL = 120; // 2 minutes
 
 /**
  * Calculate TTL (Time To Live) for tournament cache based on match states
@@ -10,32 +14,75 @@ import type { Tournament } from '@commentary/shared';
  * - All completed tournament: 1800 seconds (30 min) - very low change rate
  */
 export function calculateDynamicTTL(tournament: Tournament): number {
+  return calculateMatchesTTL(tournament.events.flatMap(event => event.currentMatches));
+}
+
+/**
+ * TTL for a single phase group - only its own matches count, so a finished
+ * pool stays cached for 30 min while the pool next to it is live
+ */
+export function calculatePhaseGroupTTL(bracket: Bracket): number {
+  return calculateMatchesTTL(bracket.matches);
+}
+
+/**
+ * TTL for an event's structure (bracket list and entrants)
+ *
+ * Follows the event's matches, but never drops below 2 minutes: new phase
+ * groups and entrants appear far less often than scores change.
+ */
+export function calculateEventTTL(event: TournamentEvent): number {
+  const matches = event.brackets.flatMap(bracket => bracket.matches);
+  return Math.max(MIN_EVENT_TTL, calculateMatchesTTL(matches));
+}
+
+/**
+ * TTL for tournament metadata (name, url, event list)
+ *
+ * Follows the whole tournament, but never drops below 10 minutes: events are
+ * rarely added once a tournament is running.
+ */
+export function calculateTournamentMetadataTTL(tournament: Tournament): number {
+  return Math.max(MIN_METADATA_TTL, calculateDynamicTTL(tournament));
+}
+
+/**
+ * TTL for a tournament's stream queues
+ *
+ * Follows the whole tournament, but never exceeds 2 minutes: organizers
+ * reorder the queue regardless of match states.
+ */
+export function calculateStreamQueueTTL(tournament: Tournament): number {
+  return Math.min(MAX_STREAM_QUEUE_TTL, calculateDynamicTTL(tournament));
+}
+
+/**
+ * TTL for any set of matches, shared by all cache scopes
+ */
+export function calculateMatchesTTL(matches: Match[]): number {
   const now = Date.now();
 
   let hasOngoingMatches = false;
   let hasRecentlyCompletedMatches = false;
   let hasAnyPendingMatches = false;
 
-  // Analyze all events and their matches
-  for (const event of tournament.events) {
-    for (const match of event.currentMatches) {
-      // Check for ongoing matches
-      if (match.status === 'in_progress') {
-        hasOngoingMatches = true;
-      }
+  for (const match of matches) {
+    // Check for ongoing matches
+    if (match.status === 'in_progress') {
+      hasOngoingMatches = true;
+    }
 
-      // Check for recently completed matches (within last 5 minutes)
-      if (match.status === 'completed' && match.completedAt) {
-        const timeSinceCompletion = now - match.completedAt;
-        if (timeSinceCompletion < 5 * 60 * 1000) { // 5 minutes
-          hasRecentlyCompletedMatches = true;
-        }
+    // Check for recently completed matches (within last 5 minutes)
+    if (match.status === 'completed' && match.completedAt) {
+      const timeSinceCompletion = now - match.completedAt;
+      if (timeSinceCompletion < 5 * 60 * 1000) { // 5 minutes
+        hasRecentlyCompletedMatches = true;
       }
+    }
 
-      // Check for pending matches
-      if (match.status === 'pending') {
-        hasAnyPendingMatches = true;
-      }
+    // Check for pending matches
+    if (match.status === 'pending') {
+      hasAnyPendingMatches = true;
     }
   }
 
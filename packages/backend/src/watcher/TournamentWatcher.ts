@@ -0,0 +1,151 @@
+import type { WatchedTournament } from '@commentary/shared';
+import { revalidateTournament } from '../services/tournament-loader';
+
+interface WatchEntry extends WatchedTournament {
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Keeps watched tournaments warm in the cache
+ *
+ * Strategy:
+ * - Each watched slug is refreshed on its own schedule
+ * - Interval follows the shortest TTL among the tournament's cache entries
+ *   (15s while a pool is live, up to 30 min once finished)
+ * - Refreshes run shortly before entries expire and refresh those about to
+ *   expire, so viewers never hit a cold cache
+ * - Watches expire automatically so forgotten tournaments stop using the rate limit
+ */
+export class TournamentWatcher {
+  private watches: Map<string, WatchEntry> = new Map();
+  private readonly DEFAULT_WATCH_HOURS = 12;
+  private readonly MIN_REFRESH_INTERVAL = 5; // seconds
+  private readonly ERROR_RETRY_INTERVAL = 60; // seconds
+  private readonly REFRESH_LEAD_FACTOR = 0.8; // Refresh at 80% of the TTL
+
+  /**
+   * Start watching a tournament, or extend an existing watch
+   * @param slug - Tournament slug
+   * @param hours - How long to keep the tournament warm
+   */
+  watch(slug: string, hours: number = this.DEFAULT_WATCH_HOURS): WatchedTournament {
+    const now = Date.now();
+    const expiresAt = now + hours * 60 * 60 * 1000;
+    const existing = this.watches.get(slug);
+
+    if (existing) {
+      existing.expiresAt = expiresAt;
+      console.log(`[WATCH] ${slug} extended until ${new Date(expiresAt).toISOString()}`);
+      return this.toWatchedTournament(existing);
+    }
+
+    const entry: WatchEntry = {
+      slug,
+      watchedSince: now,
+      expiresAt,
+    };
+    this.watches.set(slug, entry);
+
+    console.log(`[WATCH] ${slug} watched until ${new Date(expiresAt).toISOString()}`);
+
+    // Warm the cache right away
+    this.refresh(entry);
+
+    return this.toWatchedTournament(entry);
+  }
+
+  /**
+   * Stop watching a tournament
+   * @returns True if the tournament was being watched
+   */
+  unwatch(slug: string): boolean {
+    const entry = this.watches.get(slug);
+    if (!entry) {
+      return false;
+    }
+
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.watches.delete(slug);
+
+    console.log(`[WATCH] ${slug} unwatched`);
+    return true;
+  }
+
+  /**
+   * Get a single watch
+   */
+  getWatch(slug: string): WatchedTournament | null {
+    const entry = this.watches.get(slug);
+    return entry ? this.toWatchedTournament(entry) : null;
+  }
+
+  /**
+   * List all watched tournaments
+   */
+  getWatches(): WatchedTournament[] {
+    return Array.from(this.watches.values()).map(entry => this.toWatchedTournament(entry));
+  }
+
+  /**
+   * Stop all watches
+   */
+  close(): void {
+    for (const entry of this.watches.values()) {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+    }
+    this.watches.clear();
+  }
+
+  private async refresh(entry: WatchEntry): Promise<void> {
+    if (Date.now() >= entry.expiresAt) {
+      console.log(`[WATCH] ${entry.slug} watch expired`);
+      this.unwatch(entry.slug);
+      return;
+    }
+
+    let nextRefreshSeconds = this.ERROR_RETRY_INTERVAL;
+
+    // Entries that would expire before the next scheduled refresh
+    const refreshAheadSeconds = entry.ttl ? entry.ttl - this.getRefreshInterval(entry.ttl) + 1 : 0;
+
+    try {
+      const response = await revalidateTournament(entry.slug, { refreshAheadSeconds });
+      const ttl = response.metadata.ttl || this.MIN_REFRESH_INTERVAL;
+
+      entry.lastRefreshedAt = Date.now();
+      entry.ttl = ttl;
+      entry.lastError = undefined;
+
+      nextRefreshSeconds = this.getRefreshInterval(ttl);
+      console.log(`[WATCH] ${entry.slug} refreshed (TTL ${ttl}s, next in ${nextRefreshSeconds}s)`);
+    } catch (error) {
+      entry.lastError = error instanceof Error ? error.message : 'Refresh failed';
+      console.error(`[WATCH] ${entry.slug} refresh failed:`, error);
+    }
+
+    // Watch may have been removed while refreshing
+    if (this.watches.get(entry.slug) !== entry) {
+      return;
+    }
+
+    entry.nextRefreshAt = Date.now() + nextRefreshSeconds * 1000;
+    entry.timer = setTimeout(() => {
+      this.refresh(entry);
+    }, nextRefreshSeconds * 1000);
+  }
+
+  private getRefreshInterval(ttl: number): number {
+    return Math.max(this.MIN_REFRESH_INTERVAL, Math.floor(ttl * this.REFRESH_LEAD_FACTOR));
+  }
+
+  private toWatchedTournament(entry: WatchEntry): WatchedTournament {
+    const { timer, ...watched } = entry;
+    return watched;
+  }
+}
+
+export const tournamentWatcher = new TournamentWatcher();
@@ -1,8 +1,40 @@
 import React from 'react';
 import { Dashboard } from './components/Dashboard';
+import { Overlay, type OverlayView } from './components/Overlay';
+import { ScoreboardOverlay } from './components/ScoreboardOverlay';
 import './App.css';
 
+// Broadcast overlays for OBS browser sources: /overlay/:slug/:eventSlug?view=current-match
+const OVERLAY_PATH = /^\/overlay\/([^/]+)\/([^/]+)\/?$/;
+
 function App() {
+  const overlayPath = window.location.pathname.match(OVERLAY_PATH);
+
+  if (overlayPath) {
+    const params = new URLSearchParams(window.location.search);
+    const limit = Number(params.get('limit'));
+
+    if (params.get('view') === 'scoreboard') {
+      return (
+        <ScoreboardOverlay
+          slug={decodeURIComponent(overlayPath[1])}
+          eventSlug={decodeURIComponent(overlayPath[2])}
+        />
+      );
+    }
+
+    return (
+      <Overlay
+        slug={decodeURIComponent(overlayPath[1])}
+        eventSlug={decodeURIComponent(overlayPath[2])}
+        view={(params.get('view') || 'current-match') as OverlayView}
+        matchId={params.get('match') || undefined}
+        player={params.get('player') || undefined}
+        limit={limit > 0 ? limit : undefined}
+      />
+    );
+  }
+
   return (
     <div className="App">
       <Dashboard />
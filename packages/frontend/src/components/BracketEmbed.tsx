@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useRef, useLayoutEffect } from 'react';
+import { GameBreakdown } from './GameBreakdown';
 import type { TournamentEvent, Match, Player } from '../types';
 
 interface BracketEmbedProps {
@@ -6,11 +7,98 @@ interface BracketEmbedProps {
   onPlayerSelect?: (player: Player | null) => void;
 }
 
+interface BracketRound {
+  roundNumber: number;
+  name: string;
+  matches: Match[];
+}
+
+interface BracketSection {
+  key: 'winners' | 'losers' | 'grand-finals';
+  title: string;
+  rounds: BracketRound[];
+}
+
+interface Connector {
+  id: string;
+  path: string;
+  completed: boolean;
+}
+
+/**
+ * Split a bracket's sets into winners, losers and grand finals sections
+ */
+function organizeBracketSections(matches: Match[]): BracketSection[] {
+  const matchesById = new Map(matches.map(match => [match.id, match]));
+
+  // Grand finals are fed by the losers side; the reset is only recognisable by name
+  const isGrandFinal = (match: Match) =>
+    (match.roundNumber ?? 0) > 0 && (
+      /grand final/i.test(match.round) ||
+      !!match.prerequisiteMatchIds?.some(id => (matchesById.get(id)?.roundNumber ?? 0) < 0)
+    );
+
+  const grandFinals = matches.filter(isGrandFinal);
+  const losers = matches.filter(match => (match.roundNumber ?? 0) < 0);
+  const winners = matches.filter(match => (match.roundNumber ?? 0) >= 0 && !isGrandFinal(match));
+
+  const sections: BracketSection[] = [
+    { key: 'winners', title: losers.length > 0 ? 'Winners Bracket' : 'Bracket', rounds: organizeRounds(winners) },
+    { key: 'losers', title: 'Losers Bracket', rounds: organizeRounds(losers) },
+    { key: 'grand-finals', title: 'Grand Finals', rounds: organizeRounds(grandFinals) },
+  ];
+
+  return sections.filter(section => section.rounds.length > 0);
+}
+
+/**
+ * Group sets into rounds, ordered so every set lines up with the set it feeds into
+ */
+function organizeRounds(matches: Match[]): BracketRound[] {
+  const rounds = new Map<number, Match[]>();
+
+  matches.forEach(match => {
+    const roundNumber = match.roundNumber ?? 0;
+    if (!rounds.has(roundNumber)) {
+      rounds.set(roundNumber, []);
+    }
+    rounds.get(roundNumber)!.push(match);
+  });
+
+  // Losers rounds count down (-1, -2, ...), so order by distance from the start
+  const sortedRounds = Array.from(rounds.entries())
+    .sort((a, b) => Math.abs(a[0]) - Math.abs(b[0]))
+    .map(([roundNumber, roundMatches]) => ({
+      roundNumber,
+      name: roundMatches[0].round,
+      matches: [...roundMatches].sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true })),
+    }));
+
+  // Walk back from the last round so each set sits next to the set it feeds into
+  for (let i = sortedRounds.length - 2; i >= 0; i--) {
+    const nextMatches = sortedRounds[i + 1].matches;
+    const getTreePosition = (match: Match) => {
+      for (let j = 0; j < nextMatches.length; j++) {
+        const slot = nextMatches[j].prerequisiteMatchIds?.indexOf(match.id) ?? -1;
+        if (slot >= 0) return j * 2 + slot;
+      }
+      return Number.MAX_SAFE_INTEGER;
+    };
+
+    sortedRounds[i].matches.sort((a, b) => getTreePosition(a) - getTreePosition(b));
+  }
+
+  return sortedRounds;
+}
+
 export const BracketEmbed: React.FC<BracketEmbedProps> = ({
   event,
   onPlayerSelect,
 }) => {
   const [selectedBracket, setSelectedBracket] = useState<string>('');
+  const [connectors, setConnectors] = useState<Connector[]>([]);
+  const [expandedMatchId, setExpandedMatchId] = useState<string | null>(null);
+  const treeRef = useRef<HTMLDivElement>(null);
 
   const getPlayerDisplayName = (player: Player | undefined) => {
     if (!player) return 'TBD';
@@ -29,11 +117,13 @@ export const BracketEmbed: React.FC<BracketEmbedProps> = ({
     
     // Show score if available, or show status for matches without scores
     const hasScore = match.score && (match.score.player1Score !== undefined && match.score.player2Score !== undefined);
+    const isExpanded = expandedMatchId === match.id;
     
     return (
       <div
         key={match.id}
-        className={`bracket-match ${match.status} ${isHighlighted ? 'highlighted' : ''}`}
+        data-match-id={match.id}
+        className={`bracket-match ${match.status} ${isHighlighted ? 'highlighted' : ''} ${isExpanded ? 'expanded' : ''}`}
       >
         <div className="match-header">
           {hasScore ? (
@@ -47,6 +137,16 @@ export const BracketEmbed: React.FC<BracketEmbedProps> = ({
                'Upcoming'}
             </span>
           )}
+          {!!match.games?.length && (
+            <button
+              type="button"
+              className="games-toggle"
+              onClick={() => setExpandedMatchId(isExpanded ? null : match.id)}
+              title="Game-by-game breakdown"
+            >
+              {isExpanded ? '▾' : '▸'} Games
+            </button>
+          )}
         </div>
         
         <div className="match-players">
@@ -70,33 +170,82 @@ export const BracketEmbed: React.FC<BracketEmbedProps> = ({
             )}
           </div>
         </div>
+
+        {isExpanded && <GameBreakdown match={match} eventMatches={eventMatches} />}
       </div>
     );
   };
 
-  const organizeMatchesByRound = (matches: Match[]) => {
-    const rounds = new Map<string, Match[]>();
-    
-    matches.forEach(match => {
-      const roundKey = match.round;
-      if (!rounds.has(roundKey)) {
-        rounds.set(roundKey, []);
-      }
-      rounds.get(roundKey)!.push(match);
-    });
-    
-    return Array.from(rounds.entries()).sort((a, b) => {
-      // Sort rounds by progression (earlier rounds first)
-      const roundA = parseInt(a[0].match(/(\d+)/)?.[1] || '0');
-      const roundB = parseInt(b[0].match(/(\d+)/)?.[1] || '0');
-      return roundA - roundB;
-    });
-  };
+  const eventMatches = useMemo(
+    () => event.brackets.flatMap(bracket => bracket.matches),
+    [event.brackets]
+  );
 
   const selectedBracketData = selectedBracket 
     ? event.brackets.find(b => b.id === selectedBracket)
     : event.brackets[0];
 
+  const sections = useMemo(
+    () => organizeBracketSections(selectedBracketData?.matches || []),
+    [selectedBracketData]
+  );
+
+  // Connector lines depend on where the sets ended up, so measure them after layout
+  useLayoutEffect(() => {
+    const tree = treeRef.current;
+    if (!tree) {
+      setConnectors([]);
+      return;
+    }
+
+    const measureConnectors = () => {
+      const origin = tree.getBoundingClientRect();
+      const measured: Connector[] = [];
+
+      sections.forEach(section => {
+        const sectionMatches = section.rounds.flatMap(round => round.matches);
+        const sectionMatchIds = new Set(sectionMatches.map(match => match.id));
+
+        sectionMatches.forEach(match => {
+          const target = tree.querySelector(`[data-match-id="${CSS.escape(match.id)}"]`);
+
+          match.prerequisiteMatchIds?.forEach(prerequisiteId => {
+            // Drops from winners into losers cross sections and aren't drawn
+            if (!sectionMatchIds.has(prerequisiteId)) return;
+
+            const source = tree.querySelector(`[data-match-id="${CSS.escape(prerequisiteId)}"]`);
+            if (!source || !target) return;
+
+            const from = source.getBoundingClientRect();
+            const to = target.getBoundingClientRect();
+            if (to.left <= from.right) return;
+
+            const x1 = from.right - origin.left;
+            const y1 = from.top + from.height / 2 - origin.top;
+            const x2 = to.left - origin.left;
+            const y2 = to.top + to.height / 2 - origin.top;
+            const midX = (x1 + x2) / 2;
+
+            measured.push({
+              id: `${prerequisiteId}-${match.id}`,
+              path: `M ${x1} ${y1} H ${midX} V ${y2} H ${x2}`,
+              completed: sectionMatches.find(m => m.id === prerequisiteId)?.status === 'completed',
+            });
+          });
+        });
+      });
+
+      setConnectors(measured);
+    };
+
+    measureConnectors();
+    window.addEventListener('resize', measureConnectors);
+
+    return () => {
+      window.removeEventListener('resize', measureConnectors);
+    };
+  }, [sections, expandedMatchId]);
+
   if (!selectedBracketData) {
     return (
       <div className="bracket-embed">
@@ -107,8 +256,6 @@ export const BracketEmbed: React.FC<BracketEmbedProps> = ({
     );
   }
 
-  const roundsData = organizeMatchesByRound(selectedBracketData.matches);
-
   return (
     <div className="bracket-embed">
       <div className="bracket-header">
@@ -132,26 +279,46 @@ export const BracketEmbed: React.FC<BracketEmbedProps> = ({
         )}
       </div>
 
-      <div className="bracket-grid">
-        {roundsData.map(([roundName, matches]) => (
-          <div key={roundName} className="bracket-round">
-            <div className="round-header">
-              <h4>{roundName}</h4>
-              <span className="match-count">({matches.length} matches)</span>
-            </div>
-            
-            <div className="round-matches">
-              {matches.map(match => renderMatch(match))}
-            </div>
+      {sections.length > 0 ? (
+        <div className="bracket-tree-scroll">
+          <div className="bracket-tree" ref={treeRef}>
+            {sections.map(section => (
+              <div key={section.key} className={`bracket-section ${section.key}`}>
+                <h4 className="bracket-section-title">{section.title}</h4>
+
+                <div className="bracket-section-rounds">
+                  {section.rounds.map(round => (
+                    <div key={round.roundNumber} className="bracket-round">
+                      <div className="round-header">
+                        <h4>{round.name}</h4>
+                        <span className="match-count">({round.matches.length} matches)</span>
+                      </div>
+
+                      <div className="round-matches">
+                        {round.matches.map(match => renderMatch(match))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <svg className="bracket-connectors">
+              {connectors.map(connector => (
+                <path
+                  key={connector.id}
+                  d={connector.path}
+                  className={`bracket-connector ${connector.completed ? 'completed' : ''}`}
+                />
+              ))}
+            </svg>
           </div>
-        ))}
-      </div>
-      
-      {roundsData.length === 0 && (
+        </div>
+      ) : (
         <div className="no-matches">
           <p>No matches available for this bracket</p>
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,5 +1,9 @@
 import React, { useState, useMemo } from 'react';
 import { BracketEmbed } from './BracketEmbed';
+import { HeadToHeadPanel } from './HeadToHeadPanel';
+import { NotesPanel } from './NotesPanel';
+import { GameBreakdown } from './GameBreakdown';
+import { useEventStandings } from '../hooks/useEventStandings';
 import type { Tournament, TournamentEvent, Player, Match } from '../types';
 
 interface BracketVisualizationProps {
@@ -18,6 +22,22 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [selectedMatchId, setSelectedMatchId] = useState<string | null>(null);
+  const [notesMatchId, setNotesMatchId] = useState<string | null>(null);
+  const [gamesMatchId, setGamesMatchId] = useState<string | null>(null);
+
+  // Every set of the event, for stage records in game breakdowns
+  const eventMatches = useMemo(
+    () => selectedEvent?.brackets.flatMap(bracket => bracket.matches) || [],
+    [selectedEvent]
+  );
+
+  // Reloaded whenever the event data changes (live updates, refreshes)
+  const { standings } = useEventStandings(
+    tournament?.slug,
+    selectedEvent?.slug,
+    selectedEvent
+  );
 
   const filteredPlayers = useMemo(() => {
     if (!searchTerm.trim()) return players;
@@ -39,8 +59,17 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
     onPlayerSelect?.(player);
   };
 
+  const getPlayerStanding = (player: Player) => {
+    return standings?.standings.find(standing => standing.player.id === player.id);
+  };
+
   const getPlayerStatus = (player: Player): 'active' | 'eliminated' | 'unknown' => {
     if (!selectedEvent || !player) return 'unknown';
+
+    const standing = getPlayerStanding(player);
+    if (standing) {
+      return standing.status === 'eliminated' ? 'eliminated' : 'active';
+    }
     
     // Find player's most recent completed match
     const playerMatches = selectedEvent.brackets
@@ -169,6 +198,80 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
     return player.tag || player.name || 'Unknown';
   };
 
+  const formatPlacement = (placement: number) => {
+    const lastTwo = placement % 100;
+    const suffix = lastTwo >= 11 && lastTwo <= 13 ? 'th' :
+      placement % 10 === 1 ? 'st' :
+      placement % 10 === 2 ? 'nd' :
+      placement % 10 === 3 ? 'rd' : 'th';
+    return `${placement}${suffix}`;
+  };
+
+  const describePlacementProjection = (player: Player) => {
+    const standing = getPlayerStanding(player);
+    if (!standing) return null;
+
+    if (standing.status === 'winner') return '🥇 Won the event';
+    if (standing.placement) return `Finished ${formatPlacement(standing.placement)}`;
+
+    return `Guaranteed top ${standing.guaranteedTop}, can finish ${formatPlacement(standing.bestPlacement)}-${formatPlacement(standing.worstPlacement)}`;
+  };
+
+  const renderSeed = (player: Player | undefined) => {
+    if (!player?.seed) return null;
+    return <span className="player-seed">#{player.seed}</span>;
+  };
+
+  const renderUpsetBadge = (match: Match) => {
+    if (!match.upsetFactor) return null;
+    return (
+      <div className="upset-badge" title={`Upset factor ${match.upsetFactor}`}>
+        UPSET +{match.upsetFactor}
+      </div>
+    );
+  };
+
+  // Where an unfinished set is played: its stream and/or station
+  const renderAssignment = (match: Match) => {
+    if (match.status === 'completed' || (!match.stream && !match.station)) return null;
+    return (
+      <div className="match-assignment">
+        {match.stream && (
+          <span className={`stream-badge ${match.status === 'in_progress' ? 'live' : ''}`}>
+            📺 {match.status === 'in_progress' ? 'On stream' : 'Stream'}: {match.stream.name}
+          </span>
+        )}
+        {match.station && <span className="station-badge">Station {match.station}</span>}
+      </div>
+    );
+  };
+
+  // Rating-based prediction for a set that hasn't finished, from `player`'s side (player 1 by default)
+  const renderWinProbability = (match: Match, player?: Player) => {
+    if (match.status === 'completed' || match.winProbability === undefined) return null;
+
+    const fromPlayer2 = !!player && player.id === match.player2?.id;
+    const chance = fromPlayer2 ? 1 - match.winProbability : match.winProbability;
+    const [player1, player2] = fromPlayer2 ? [match.player2, match.player1] : [match.player1, match.player2];
+    const upsetChance = Math.round(Math.min(chance, 1 - chance) * 100);
+
+    return (
+      <div className="win-probability" title={`Upset chance: ${upsetChance}%`}>
+        <div className="win-probability-labels">
+          <span className={chance >= 0.5 ? 'favorite' : 'underdog'}>
+            {getPlayerDisplayName(player1)} {Math.round(chance * 100)}%
+          </span>
+          <span className={chance < 0.5 ? 'favorite' : 'underdog'}>
+            {Math.round((1 - chance) * 100)}% {getPlayerDisplayName(player2)}
+          </span>
+        </div>
+        <div className={`win-probability-bar ${chance < 0.5 ? 'underdog' : ''}`}>
+          <div className="win-probability-fill" style={{ width: `${chance * 100}%` }} />
+        </div>
+      </div>
+    );
+  };
+
   const formatMatchTime = (match: Match) => {
     const now = Date.now() / 1000; // Convert to Unix timestamp
     
@@ -196,6 +299,13 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
     return '';
   };
 
+  const handleMatchSelection = (match: Match) => {
+    setSelectedMatchId(prev => prev === match.id ? null : match.id);
+  };
+
+  // Looked up on every render so live updates reach the head-to-head panel
+  const selectedMatch = selectedEvent?.currentMatches.find(match => match.id === selectedMatchId);
+
   if (!tournament || !selectedEvent) {
     return (
       <div className="bracket-placeholder">
@@ -291,11 +401,16 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
                 <div key={match.id} className={`current-match-card ${match.status} ${
                   match.status === 'completed' ? 'match-completed' : 
                   match.status === 'in_progress' ? 'match-active' : 'match-pending'
-                }`}>
+                } ${selectedMatchId === match.id ? 'selected' : ''}`}
+                  onClick={() => handleMatchSelection(match)}
+                  title="Show head-to-head"
+                >
                   <div className="match-card-header">
                     <div className="match-context">
                       <div className="bracket-name">{match.bracketName}</div>
                       <div className="round-name">{match.round}</div>
+                      {renderUpsetBadge(match)}
+                      {renderAssignment(match)}
                     </div>
                     <div className="match-status-badge">
                       {match.status === 'in_progress' ? '⚡ Live' : 
@@ -313,7 +428,7 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
                   <div className="match-card-content">
                     <div className="match-contestants">
                       <div className={`contestant ${player1Won ? 'winner' : player2Won ? 'loser' : ''}`}>
-                        <div className="player-name">{getPlayerDisplayName(match.player1)}</div>
+                        <div className="player-name">{getPlayerDisplayName(match.player1)}{renderSeed(match.player1)}</div>
                         {match.score && (
                           <div className="player-score-detail">
                             <span className="score-number">{player1Score}</span>
@@ -336,7 +451,7 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
                       </div>
                       
                       <div className={`contestant ${player2Won ? 'winner' : player1Won ? 'loser' : ''}`}>
-                        <div className="player-name">{getPlayerDisplayName(match.player2)}</div>
+                        <div className="player-name">{getPlayerDisplayName(match.player2)}{renderSeed(match.player2)}</div>
                         {match.score && (
                           <div className="player-score-detail">
                             <span className="score-number">{player2Score}</span>
@@ -347,6 +462,8 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
                         )}
                       </div>
                     </div>
+
+                    {renderWinProbability(match)}
                     
                     {match.status === 'completed' && match.winner && (
                       <div className="match-winner">
@@ -354,6 +471,11 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
                       </div>
                     )}
                   </div>
+
+                  {/* Selecting a set expands its games, e.g. for games played so far in a live set */}
+                  {selectedMatchId === match.id && !!match.games?.length && (
+                    <GameBreakdown match={match} eventMatches={eventMatches} />
+                  )}
                 </div>
               );
             })}
@@ -364,6 +486,10 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
             <span className="no-matches-subtitle">Check back later for live matches</span>
           </div>
         )}
+
+        {selectedMatch && (
+          <HeadToHeadPanel match={selectedMatch} onClose={() => setSelectedMatchId(null)} />
+        )}
       </div>
 
       {selectedPlayer ? (
@@ -376,6 +502,16 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
                '❓ Status Unknown'}
             </div>
           </div>
+
+          {describePlacementProjection(selectedPlayer) && (
+            <div className="placement-projection">
+              {describePlacementProjection(selectedPlayer)}
+            </div>
+          )}
+
+          {tournament && (
+            <NotesPanel tournamentSlug={tournament.slug} playerId={selectedPlayer.id} title="Player Notes" />
+          )}
           
           <div className="path-timeline">
             {getPlayerPathMatches().map((match, index) => {
@@ -417,11 +553,12 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
                     <div className="match-context">
                       <div className="bracket-name">{match.bracketName}</div>
                       <div className="round-name">{match.round}</div>
+                      {renderUpsetBadge(match)}
                     </div>
                     
                     <div className="match-contestants">
                       <div className={`contestant player-contestant ${playerWon ? 'winner' : playerLost ? 'loser' : ''}`}>
-                        <div className="player-name">{getPlayerDisplayName(selectedPlayer)}</div>
+                        <div className="player-name">{getPlayerDisplayName(selectedPlayer)}{renderSeed(selectedPlayer)}</div>
                         {match.score && (
                           <div className="player-score-detail">
                             <span className="score-number">{playerScore}</span>
@@ -446,7 +583,7 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
                       <div className={`contestant opponent-contestant ${
                         playerLost ? 'winner' : playerWon ? 'loser' : ''
                       }`}>
-                        <div className="player-name">{getPlayerDisplayName(opponent)}</div>
+                        <div className="player-name">{getPlayerDisplayName(opponent)}{renderSeed(opponent)}</div>
                         {match.score && (
                           <div className="player-score-detail">
                             <span className="score-number">{opponentScore}</span>
@@ -457,13 +594,43 @@ export const BracketVisualization: React.FC<BracketVisualizationProps> = ({
                         )}
                       </div>
                     </div>
+
+                    {renderWinProbability(match, selectedPlayer)}
                     
                     {formatMatchTime(match) && (
                       <div className="match-timestamp">
                         {formatMatchTime(match)}
                       </div>
                     )}
+
+                    {tournament && (
+                      <button
+                        type="button"
+                        className="path-notes-toggle"
+                        onClick={() => setNotesMatchId(notesMatchId === match.id ? null : match.id)}
+                      >
+                        📝 {notesMatchId === match.id ? 'Hide notes' : 'Notes'}
+                      </button>
+                    )}
+
+                    {!!match.games?.length && (
+                      <button
+                        type="button"
+                        className="path-notes-toggle"
+                        onClick={() => setGamesMatchId(gamesMatchId === match.id ? null : match.id)}
+                      >
+                        🎮 {gamesMatchId === match.id ? 'Hide games' : 'Games'}
+                      </button>
+                    )}
+
+                    {gamesMatchId === match.id && (
+                      <GameBreakdown match={match} eventMatches={eventMatches} />
+                    )}
                   </div>
+
+                  {tournament && notesMatchId === match.id && (
+                    <NotesPanel tournamentSlug={tournament.slug} matchId={match.id} title="Match Notes" />
+                  )}
                   
                   {index < getPlayerPathMatches().length - 1 && match.status === 'completed' && playerWon && (
                     <div className="path-progression">
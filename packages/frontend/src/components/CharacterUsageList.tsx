@@ -0,0 +1,23 @@
+import React from 'react';
+import type { CharacterUsage } from '@commentary/shared';
+
+interface CharacterUsageListProps {
+  characters: CharacterUsage[];
+  maxItems?: number;
+}
+
+export const CharacterUsageList: React.FC<CharacterUsageListProps> = ({ characters, maxItems = 3 }) => {
+  return (
+    <ul className="character-usage-list">
+      {characters.slice(0, maxItems).map(usage => (
+        <li key={usage.character.id} className="character-usage-item">
+          <span className="character-name">{usage.character.name}</span>
+          <span className="character-games">{usage.games} games</span>
+          <span className={`character-win-rate ${usage.winRate >= 0.5 ? 'win-rate-positive' : 'win-rate-negative'}`}>
+            {usage.wins}-{usage.games - usage.wins}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -1,60 +1,116 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { BracketVisualization } from './BracketVisualization';
 import { PlayerInfo } from './PlayerInfo';
 import { PlayerSearch } from './PlayerSearch';
 import { ErrorDisplay } from './ErrorDisplay';
-import { useTournamentData } from '../hooks/useTournamentData';
+import { RecentChanges } from './RecentChanges';
+import { UpsetsFeed } from './UpsetsFeed';
+import { ScoreboardControl } from './ScoreboardControl';
+import { StreamQueuePanel } from './StreamQueuePanel';
+import { MetaPanel } from './MetaPanel';
+import { PlayerCategories } from './PlayerCategories';
+import { TournamentTabs } from './TournamentTabs';
+import { LiveNowView } from './LiveNowView';
+import { useTournamentData, getSessionId } from '../hooks/useTournamentData';
+import { usePrepSheets } from '../hooks/usePrepSheets';
+import { useEventCharacterStats } from '../hooks/useEventCharacterStats';
+import { useEventCategories } from '../hooks/useEventCategories';
 import type { Player } from '@commentary/shared';
 
+/**
+ * Tournament/event pairs of the open tabs in the URL, paired by position:
+ * ?tournament=a&event=x&tournament=b&event=
+ */
+const getUrlSessions = () => {
+  const urlParams = new URLSearchParams(window.location.search);
+  const events = urlParams.getAll('event');
+
+  return urlParams.getAll('tournament')
+    .map((url, index) => ({ url: url.trim(), eventName: events[index]?.trim() || undefined }))
+    .filter(session => session.url);
+};
+
+const buildSessionsUrl = (sessions: { url: string; eventName?: string }[]) => {
+  const params = new URLSearchParams();
+  const withEvents = sessions.some(session => session.eventName);
+
+  for (const session of sessions) {
+    params.append('tournament', session.url);
+    if (withEvents) {
+      params.append('event', session.eventName || '');
+    }
+  }
+
+  return params.toString()
+    ? `${window.location.pathname}?${params.toString()}`
+    : window.location.pathname;
+};
+
 export const Dashboard: React.FC = () => {
   // Initialize state from URL parameters
   const urlParams = new URLSearchParams(window.location.search);
   const [tournamentUrl, setTournamentUrl] = useState(urlParams.get('tournament') || '');
   const [eventName, setEventName] = useState(urlParams.get('event') || '');
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
-  const [autoRefreshEnabled, setAutoRefreshEnabled] = useState(false);
+  const [showLiveNow, setShowLiveNow] = useState(false);
   
   const {
     tournament,
     selectedEvent,
     players,
-    majorContenders,
-    newContenders,
-    improving,
     loading,
     error,
     loadingProgress,
+    lastLiveUpdate,
+    liveUpdates,
+    sessions,
+    activeSessionId,
+    liveMatches,
     loadTournament,
     refreshData,
     startAutoRefresh,
     stopAutoRefresh,
+    selectSession,
+    closeSession,
     clearError,
   } = useTournamentData();
 
-  // Update URL parameters when state changes
-  const updateUrlParams = (newTournamentUrl: string, newEventName: string) => {
-    const params = new URLSearchParams();
-    if (newTournamentUrl.trim()) {
-      params.set('tournament', newTournamentUrl.trim());
-    }
-    if (newEventName.trim()) {
-      params.set('event', newEventName.trim());
-    }
-    
-    const newUrl = params.toString() 
-      ? `${window.location.pathname}?${params.toString()}`
-      : window.location.pathname;
-    
-    window.history.pushState({}, '', newUrl);
-  };
+  // Live updates double as the cue to pick up other commentators' prep
+  const {
+    sheets: prepSheets,
+    error: prepSheetError,
+    savePrepSheet,
+  } = usePrepSheets(tournament?.slug, lastLiveUpdate);
+
+  const { stats: characterStats, loading: characterStatsLoading } = useEventCharacterStats(
+    tournament?.slug,
+    selectedEvent?.slug,
+    lastLiveUpdate
+  );
+  const { categories: playerCategories, loading: playerCategoriesLoading } = useEventCategories(
+    tournament?.slug,
+    selectedEvent?.slug,
+    lastLiveUpdate
+  );
+
+  // Current tabs for the popstate handler, which is only registered once
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
 
   const handleLoadTournament = async () => {
     if (!tournamentUrl.trim()) return;
-    
-    // Update URL with current parameters
-    updateUrlParams(tournamentUrl, eventName);
-    
-    await loadTournament(tournamentUrl.trim(), eventName.trim() || undefined);
+
+    const url = tournamentUrl.trim();
+    const event = eventName.trim() || undefined;
+    const id = getSessionId(url, event);
+
+    // Add the new tab to the URL
+    if (!sessions.some(session => session.id === id)) {
+      window.history.pushState({}, '', buildSessionsUrl([...sessions, { url, eventName: event }]));
+    }
+
+    setShowLiveNow(false);
+    await loadTournament(url, event);
   };
 
   const handleRefresh = async () => {
@@ -62,12 +118,10 @@ export const Dashboard: React.FC = () => {
   };
 
   const toggleAutoRefresh = () => {
-    if (autoRefreshEnabled) {
+    if (liveUpdates) {
       stopAutoRefresh();
-      setAutoRefreshEnabled(false);
     } else {
       startAutoRefresh();
-      setAutoRefreshEnabled(true);
     }
   };
 
@@ -75,20 +129,38 @@ export const Dashboard: React.FC = () => {
     setSelectedPlayer(player);
   };
 
-  // Load tournament from URL parameters on mount and handle browser navigation
+  const handleSelectSession = (id: string) => {
+    setShowLiveNow(false);
+    selectSession(id);
+  };
+
+  // Players belong to a tab
+  useEffect(() => {
+    setSelectedPlayer(null);
+  }, [activeSessionId]);
+
+  // Load tournaments from URL parameters on mount and handle browser navigation
   useEffect(() => {
     const loadFromUrl = () => {
-      const urlParams = new URLSearchParams(window.location.search);
-      const urlTournament = urlParams.get('tournament');
-      const urlEvent = urlParams.get('event');
-      
+      const urlSessions = getUrlSessions();
+      const urlSessionIds = urlSessions.map(session => getSessionId(session.url, session.eventName));
+
       // Update input fields to match URL
-      setTournamentUrl(urlTournament || '');
-      setEventName(urlEvent || '');
-      
-      if (urlTournament && urlTournament.trim()) {
-        // Auto-load tournament if URL parameters are present
-        loadTournament(urlTournament.trim(), urlEvent?.trim() || undefined);
+      setTournamentUrl(urlSessions[0]?.url || '');
+      setEventName(urlSessions[0]?.eventName || '');
+
+      // Close tabs that are no longer in the URL
+      for (const session of sessionsRef.current) {
+        if (!urlSessionIds.includes(session.id)) {
+          closeSession(session.id);
+        }
+      }
+
+      // Auto-load tournaments that are not open yet
+      for (const [index, session] of urlSessions.entries()) {
+        if (!sessionsRef.current.some(existing => existing.id === urlSessionIds[index])) {
+          loadTournament(session.url, session.eventName);
+        }
       }
     };
     
@@ -116,38 +188,33 @@ export const Dashboard: React.FC = () => {
     setEventName(value);
   };
 
-  const clearTournament = () => {
-    setTournamentUrl('');
-    setEventName('');
+  const closeTab = (id: string) => {
     setSelectedPlayer(null);
-    stopAutoRefresh();
-    setAutoRefreshEnabled(false);
-    
-    // Clear URL parameters
-    window.history.pushState({}, '', window.location.pathname);
+    closeSession(id);
+
+    // Drop the tab from the URL parameters
+    const remaining = sessions.filter(session => session.id !== id);
+    window.history.pushState({}, '', buildSessionsUrl(remaining));
+
+    if (remaining.length < 2) {
+      setShowLiveNow(false);
+    }
   };
 
-  // Auto-refresh indicator
+  // Live update indicator - flash whenever the backend pushes new data
   useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    
-    if (autoRefreshEnabled && tournament) {
-      interval = setInterval(() => {
-        // Visual indicator that refresh is happening
-        const indicator = document.getElementById('refresh-indicator');
-        if (indicator) {
-          indicator.style.opacity = '1';
-          setTimeout(() => {
-            if (indicator) indicator.style.opacity = '0.3';
-          }, 1000);
-        }
-      }, 30000);
-    }
+    if (!lastLiveUpdate) return;
 
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [autoRefreshEnabled, tournament]);
+    const indicator = document.getElementById('refresh-indicator');
+    if (!indicator) return;
+
+    indicator.style.opacity = '1';
+    const timeout = setTimeout(() => {
+      indicator.style.opacity = '0.3';
+    }, 1000);
+
+    return () => clearTimeout(timeout);
+  }, [lastLiveUpdate]);
 
   return (
     <div className="dashboard">
@@ -175,12 +242,24 @@ export const Dashboard: React.FC = () => {
               disabled={loading || !tournamentUrl.trim()}
               className="load-button"
             >
-              {loading ? 'Loading...' : 'Load Tournament'}
+              {loading ? 'Loading...' : sessions.length > 0 ? 'Open in New Tab' : 'Load Tournament'}
             </button>
           </div>
         </div>
 
-        {tournament && (
+        {sessions.length > 0 && (
+          <TournamentTabs
+            sessions={sessions}
+            activeSessionId={activeSessionId}
+            liveNowActive={showLiveNow}
+            liveMatchCount={liveMatches.length}
+            onSelect={handleSelectSession}
+            onClose={closeTab}
+            onSelectLiveNow={() => setShowLiveNow(true)}
+          />
+        )}
+
+        {tournament && !showLiveNow && (
           <div className="dashboard-controls">
             <button
               onClick={handleRefresh}
@@ -192,15 +271,15 @@ export const Dashboard: React.FC = () => {
             </button>
             <button
               onClick={toggleAutoRefresh}
-              className={`auto-refresh-button ${autoRefreshEnabled ? 'active' : ''}`}
+              className={`auto-refresh-button ${liveUpdates ? 'active' : ''}`}
             >
-              {autoRefreshEnabled ? 'Stop Auto-Refresh' : 'Start Auto-Refresh (30s)'}
+              {liveUpdates ? 'Stop Live Updates' : 'Start Live Updates'}
             </button>
             <button
-              onClick={clearTournament}
+              onClick={() => activeSessionId && closeTab(activeSessionId)}
               className="clear-tournament-button"
             >
-              Clear Tournament
+              Close Tab
             </button>
             <div id="refresh-indicator" className="refresh-indicator">
               🔄
@@ -209,7 +288,11 @@ export const Dashboard: React.FC = () => {
         )}
       </header>
 
-      {loading && loadingProgress && (
+      {showLiveNow && (
+        <LiveNowView liveMatches={liveMatches} onOpenSession={handleSelectSession} />
+      )}
+
+      {!showLiveNow && loading && loadingProgress && (
         <div className="loading-progress">
           <div className="progress-content">
             <h3>Loading Tournament Data...</h3>
@@ -246,7 +329,7 @@ export const Dashboard: React.FC = () => {
         <ErrorDisplay error={error} onDismiss={clearError} />
       )}
 
-      {tournament && (
+      {tournament && !showLiveNow && (
         <div className="dashboard-content">
           <div className="main-content">
             <BracketVisualization
@@ -269,76 +352,50 @@ export const Dashboard: React.FC = () => {
             {selectedPlayer && (
               <div className="selected-player-section">
                 <h3>Selected Player</h3>
-                <PlayerInfo player={selectedPlayer} detailed={true} />
+                <PlayerInfo
+                  key={selectedPlayer.id}
+                  player={selectedPlayer}
+                  detailed={true}
+                  tournamentSlug={tournament.slug}
+                  prepSheet={prepSheets[selectedPlayer.id]}
+                  onPrepSheetSave={(input) => savePrepSheet(selectedPlayer.id, input)}
+                  prepSheetError={prepSheetError}
+                  eventCharacters={characterStats?.players.find(stats => stats.playerId === selectedPlayer.id)}
+                />
               </div>
             )}
 
-            <div className="player-categories">
-              <div className="category">
-                <h3>Major Contenders ({majorContenders.length})</h3>
-                <div className="player-list">
-                  {majorContenders.slice(0, 5).map(player => (
-                    <div
-                      key={player.id}
-                      className="player-item clickable"
-                      onClick={() => handlePlayerSelect(player)}
-                    >
-                      <PlayerInfo player={player} />
-                    </div>
-                  ))}
-                  {majorContenders.length > 5 && (
-                    <div className="more-players">
-                      +{majorContenders.length - 5} more
-                    </div>
-                  )}
-                </div>
-              </div>
+            <RecentChanges
+              tournamentSlug={tournament.slug}
+              eventId={selectedEvent?.id}
+              refreshKey={lastLiveUpdate}
+            />
 
-              <div className="category">
-                <h3>New Contenders ({newContenders.length})</h3>
-                <div className="player-list">
-                  {newContenders.slice(0, 5).map(player => (
-                    <div
-                      key={player.id}
-                      className="player-item clickable"
-                      onClick={() => handlePlayerSelect(player)}
-                    >
-                      <PlayerInfo player={player} />
-                    </div>
-                  ))}
-                  {newContenders.length > 5 && (
-                    <div className="more-players">
-                      +{newContenders.length - 5} more
-                    </div>
-                  )}
-                </div>
-              </div>
+            <StreamQueuePanel tournament={tournament} />
 
-              <div className="category">
-                <h3>Improving Players ({improving.length})</h3>
-                <div className="player-list">
-                  {improving.slice(0, 5).map(player => (
-                    <div
-                      key={player.id}
-                      className="player-item clickable"
-                      onClick={() => handlePlayerSelect(player)}
-                    >
-                      <PlayerInfo player={player} />
-                    </div>
-                  ))}
-                  {improving.length > 5 && (
-                    <div className="more-players">
-                      +{improving.length - 5} more
-                    </div>
-                  )}
-                </div>
-              </div>
-            </div>
+            <UpsetsFeed event={selectedEvent} />
+
+            {selectedEvent && <MetaPanel stats={characterStats} loading={characterStatsLoading} />}
+
+            {selectedEvent && (
+              <ScoreboardControl
+                tournamentSlug={tournament.slug}
+                eventSlug={selectedEvent.slug}
+                matches={selectedEvent.currentMatches}
+              />
+            )}
+
+            <PlayerCategories
+              categories={playerCategories}
+              loading={playerCategoriesLoading}
+              prepSheets={prepSheets}
+              onPlayerSelect={handlePlayerSelect}
+            />
           </div>
         </div>
       )}
 
-      {!tournament && !loading && (
+      {!tournament && !loading && !showLiveNow && (
         <div className="welcome-message">
           <h2>Welcome to the Commentary Dashboard</h2>
           <p>Enter a start.gg tournament URL above to get started</p>
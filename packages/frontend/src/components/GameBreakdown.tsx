@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+import type { Match, MatchGame, Player } from '../types';
+
+interface GameBreakdownProps {
+  match: Match;
+  eventMatches?: Match[]; // Enables each player's record on a stage across the event
+}
+
+interface StageRecord {
+  wins: number;
+  losses: number;
+}
+
+/**
+ * A player's game record per stage across the given matches
+ * @returns Records keyed by `${playerId}:${stage}`
+ */
+function getStageRecords(matches: Match[]): Map<string, StageRecord> {
+  const records = new Map<string, StageRecord>();
+
+  for (const match of matches) {
+    for (const game of match.games || []) {
+      if (!game.stage || !game.winnerId) continue;
+
+      [match.player1, match.player2].forEach(player => {
+        if (!player) return;
+
+        const key = `${player.id}:${game.stage}`;
+        const record = records.get(key) || { wins: 0, losses: 0 };
+        if (game.winnerId === player.id) {
+          record.wins++;
+        } else {
+          record.losses++;
+        }
+        records.set(key, record);
+      });
+    }
+  }
+
+  return records;
+}
+
+export const GameBreakdown: React.FC<GameBreakdownProps> = ({ match, eventMatches }) => {
+  const stageRecords = useMemo(() => getStageRecords(eventMatches || []), [eventMatches]);
+
+  const getPlayerDisplayName = (player: Player | undefined) => {
+    if (!player) return 'TBD';
+    return player.tag || player.name || 'Unknown';
+  };
+
+  // Only worth a mention once a player has played the stage more than once
+  const renderStageRecord = (player: Player | undefined, stage?: string) => {
+    if (!player || !stage) return null;
+
+    const record = stageRecords.get(`${player.id}:${stage}`);
+    if (!record || record.wins + record.losses < 2) return null;
+
+    return (
+      <span className="game-stage-record" title={`${getPlayerDisplayName(player)} on ${stage} this event`}>
+        {getPlayerDisplayName(player)} {record.wins}-{record.losses} here
+      </span>
+    );
+  };
+
+  const renderGame = (game: MatchGame) => {
+    const winner = game.winnerId === match.player1?.id ? match.player1
+      : game.winnerId === match.player2?.id ? match.player2
+      : undefined;
+    const loser = winner && (winner === match.player1 ? match.player2 : match.player1);
+
+    return (
+      <li key={game.number} className="game-row">
+        <span className="game-number">G{game.number}</span>
+        <div className="game-details">
+          <div className="game-characters">
+            <span className={winner && winner === match.player1 ? 'game-winner' : ''}>
+              {game.player1Character?.name || getPlayerDisplayName(match.player1)}
+            </span>
+            {' vs '}
+            <span className={winner && winner === match.player2 ? 'game-winner' : ''}>
+              {game.player2Character?.name || getPlayerDisplayName(match.player2)}
+            </span>
+          </div>
+          <div className="game-meta">
+            {game.stage && <span className="game-stage">{game.stage}</span>}
+            {winner && <span>Won by {getPlayerDisplayName(winner)}</span>}
+            {renderStageRecord(loser, game.stage)}
+          </div>
+        </div>
+      </li>
+    );
+  };
+
+  if (!match.games || match.games.length === 0) {
+    return (
+      <div className="game-breakdown">
+        <p className="game-breakdown-empty">No game results reported for this set</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="game-breakdown" onClick={(e) => e.stopPropagation()}>
+      <ol className="game-list">
+        {match.games.map(renderGame)}
+      </ol>
+    </div>
+  );
+};
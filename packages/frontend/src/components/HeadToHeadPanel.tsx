@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { backendApi } from '../services/backendApi';
+import type { HeadToHeadRecord } from '@commentary/shared';
+import type { Match, Player } from '../types';
+
+interface HeadToHeadPanelProps {
+  match: Match;
+  onClose?: () => void;
+}
+
+export const HeadToHeadPanel: React.FC<HeadToHeadPanelProps> = ({ match, onClose }) => {
+  const [record, setRecord] = useState<HeadToHeadRecord | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const playerAId = match.player1?.startggId;
+  const playerBId = match.player2?.startggId;
+
+  useEffect(() => {
+    setRecord(null);
+    setError(null);
+
+    if (!playerAId || !playerBId) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    backendApi.getHeadToHead(playerAId, playerBId)
+      .then(response => {
+        if (!cancelled) setRecord(response.data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load head-to-head');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [playerAId, playerBId]);
+
+  const getPlayerDisplayName = (player: Player | undefined) => {
+    if (!player) return 'TBD';
+    return player.tag || player.name || 'Unknown';
+  };
+
+  const player1Name = getPlayerDisplayName(match.player1);
+  const player2Name = getPlayerDisplayName(match.player2);
+
+  const renderBody = () => {
+    if (!playerAId || !playerBId) {
+      return <p className="h2h-empty">Both players need a start.gg profile to look up their history</p>;
+    }
+
+    if (loading) {
+      return <p className="h2h-empty">Loading head-to-head…</p>;
+    }
+
+    if (error) {
+      return <p className="h2h-error">{error}</p>;
+    }
+
+    if (!record || record.sets.length === 0) {
+      return <p className="h2h-empty">First time these two meet</p>;
+    }
+
+    return (
+      <>
+        <div className="h2h-record">
+          <span className={`h2h-wins ${record.playerAWins > record.playerBWins ? 'leading' : ''}`}>
+            {record.playerAWins}
+          </span>
+          <span className="h2h-divider">-</span>
+          <span className={`h2h-wins ${record.playerBWins > record.playerAWins ? 'leading' : ''}`}>
+            {record.playerBWins}
+          </span>
+        </div>
+
+        <ul className="h2h-sets">
+          {record.sets.slice(0, 10).map(set => (
+            <li key={set.id} className={`h2h-set ${set.winnerId === playerAId ? 'won-a' : 'won-b'}`}>
+              <div className="h2h-set-result">
+                <strong>{set.winnerId === playerAId ? player1Name : player2Name}</strong>
+                {set.playerAScore !== undefined && set.playerBScore !== undefined && (
+                  <span className="h2h-set-score">{set.playerAScore} - {set.playerBScore}</span>
+                )}
+              </div>
+              <div className="h2h-set-meta">
+                <span>{set.tournament} · {set.round}</span>
+                {set.completedAt && <span>{new Date(set.completedAt * 1000).toLocaleDateString()}</span>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </>
+    );
+  };
+
+  return (
+    <div className="h2h-panel">
+      <div className="h2h-header">
+        <h4>{player1Name} vs {player2Name}</h4>
+        {onClose && (
+          <button className="h2h-close" onClick={onClose} type="button">
+            ✕
+          </button>
+        )}
+      </div>
+      {renderBody()}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { LiveMatch } from '../hooks/useTournamentData';
+import type { Player } from '@commentary/shared';
+
+interface LiveNowViewProps {
+  liveMatches: LiveMatch[];
+  onOpenSession: (sessionId: string) => void;
+}
+
+/**
+ * In-progress matches across every loaded tournament, so one window can
+ * follow concurrent events
+ */
+export const LiveNowView: React.FC<LiveNowViewProps> = ({ liveMatches, onOpenSession }) => {
+  const getPlayerDisplayName = (player: Player | undefined) => {
+    if (!player) return 'TBD';
+    return player.tag || player.name || 'Unknown';
+  };
+
+  const formatElapsed = (startedAt?: number) => {
+    if (!startedAt) return '';
+
+    const minutes = Math.floor((Date.now() / 1000 - startedAt) / 60);
+    if (minutes < 60) return `Started ${minutes}m ago`;
+    return `Started ${Math.floor(minutes / 60)}h ago`;
+  };
+
+  return (
+    <div className="live-now">
+      <h2>⚡ Live Now</h2>
+      <p className="live-now-hint">
+        Turn on live updates in each tab to keep this view current.
+      </p>
+
+      {liveMatches.length > 0 ? (
+        <div className="live-now-grid">
+          {liveMatches.map(({ sessionId, tournament, event, match }) => (
+            <div
+              key={`${sessionId}:${match.id}`}
+              className="live-now-card"
+              onClick={() => onOpenSession(sessionId)}
+              title="Open tournament tab"
+            >
+              <div className="live-now-context">
+                <span className="live-now-tournament">{tournament.name}</span>
+                <span className="live-now-event">{event.name} · {match.bracketName} · {match.round}</span>
+              </div>
+              <div className="live-now-players">
+                <span>{getPlayerDisplayName(match.player1)}</span>
+                <span className="live-now-score">
+                  {match.score ? `${match.score.player1Score} - ${match.score.player2Score}` : 'vs'}
+                </span>
+                <span>{getPlayerDisplayName(match.player2)}</span>
+              </div>
+              {match.startedAt && <div className="match-timestamp">{formatElapsed(match.startedAt)}</div>}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="no-current-matches">
+          <p>No matches in progress across the open tournaments</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { EventCharacterStats } from '@commentary/shared';
+
+interface MetaPanelProps {
+  stats?: EventCharacterStats;
+  loading?: boolean;
+  maxItems?: number;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Event-wide character representation and win rates
+ */
+export const MetaPanel: React.FC<MetaPanelProps> = ({ stats, loading = false, maxItems = 8 }) => {
+  const characters = stats?.characters.slice(0, maxItems) || [];
+
+  return (
+    <div className="meta-panel">
+      <h3>Meta</h3>
+      {characters.length > 0 ? (
+        <>
+          <p className="meta-summary">
+            {stats!.characters.length} characters across {stats!.games} reported games
+          </p>
+          <ul className="meta-list">
+            {characters.map(usage => (
+              <li key={usage.character.id} className="meta-item">
+                <div className="meta-item-header">
+                  <span className="meta-character">{usage.character.name}</span>
+                  <span className="meta-pick-rate">{formatPercent(usage.pickRate)}</span>
+                </div>
+                <div className="meta-bar">
+                  <div className="meta-bar-fill" style={{ width: formatPercent(usage.pickRate) }} />
+                </div>
+                <div className="meta-item-meta">
+                  <span>{usage.players} {usage.players === 1 ? 'player' : 'players'}</span>
+                  <span>{usage.games} games</span>
+                  <span className={usage.winRate >= 0.5 ? 'win-rate-positive' : 'win-rate-negative'}>
+                    {formatPercent(usage.winRate)} win rate
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p className="no-meta">{loading ? 'Loading character stats…' : 'No character data reported yet'}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { useNotes } from '../hooks/useNotes';
+
+interface NotesPanelProps {
+  tournamentSlug: string;
+  playerId?: string;
+  matchId?: string;
+  title?: string;
+}
+
+export const NotesPanel: React.FC<NotesPanelProps> = ({
+  tournamentSlug,
+  playerId,
+  matchId,
+  title = 'Notes',
+}) => {
+  const { notes, loading, error, addNote, editNote, removeNote } = useNotes(tournamentSlug, playerId, matchId);
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    await addNote(draft.trim());
+    setDraft('');
+  };
+
+  const startEditing = (id: string, text: string) => {
+    setEditingId(id);
+    setEditText(text);
+  };
+
+  const handleSaveEdit = async (id: string) => {
+    if (!editText.trim()) return;
+
+    await editNote(id, editText.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="notes-panel">
+      <h4>{title}</h4>
+
+      {loading ? (
+        <p className="notes-empty">Loading notes…</p>
+      ) : notes.length > 0 ? (
+        <ul className="notes-list">
+          {notes.map(note => (
+            <li key={note.id} className="note-item">
+              {editingId === note.id ? (
+                <div className="note-edit">
+                  <textarea value={editText} onChange={(e) => setEditText(e.target.value)} rows={2} />
+                  <div className="note-actions">
+                    <button type="button" onClick={() => handleSaveEdit(note.id)}>Save</button>
+                    <button type="button" onClick={() => setEditingId(null)}>Cancel</button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <p className="note-text">{note.text}</p>
+                  <div className="note-meta">
+                    <span>
+                      {note.author && `${note.author} · `}
+                      {new Date(note.updatedAt).toLocaleString()}
+                    </span>
+                    <div className="note-actions">
+                      <button type="button" onClick={() => startEditing(note.id, note.text)}>Edit</button>
+                      <button type="button" onClick={() => removeNote(note.id)}>Delete</button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="notes-empty">No notes yet</p>
+      )}
+
+      <form className="note-form" onSubmit={handleAdd}>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add a note…"
+          rows={2}
+        />
+        <button type="submit" disabled={!draft.trim()}>Add note</button>
+      </form>
+
+      {error && <p className="notes-error">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useEffect } from 'react';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import type { TournamentEvent, Match, Player } from '@commentary/shared';
+
+export type OverlayView = 'current-match' | 'upcoming' | 'player-path';
+
+interface OverlayProps {
+  slug: string;
+  eventSlug: string;
+  view: OverlayView;
+  matchId?: string; // current-match: show this set instead of the latest live one
+  player?: string; // player-path: tag, entrant id or start.gg player id
+  limit?: number; // upcoming: number of sets to show
+}
+
+export const Overlay: React.FC<OverlayProps> = ({
+  slug,
+  eventSlug,
+  view,
+  matchId,
+  player,
+  limit = 5,
+}) => {
+  const { event, loading, error } = useLiveEvent(slug, eventSlug);
+
+  // OBS browser sources composite the page, so nothing may paint the background
+  useEffect(() => {
+    document.body.classList.add('overlay-mode');
+    return () => document.body.classList.remove('overlay-mode');
+  }, []);
+
+  const getPlayerDisplayName = (player: Player | undefined) => {
+    if (!player) return 'TBD';
+    return player.tag || player.name || 'Unknown';
+  };
+
+  const getAllMatches = (event: TournamentEvent) => event.brackets.flatMap(bracket => bracket.matches);
+
+  const findCurrentMatch = (event: TournamentEvent) => {
+    const matches = getAllMatches(event);
+
+    if (matchId) {
+      return matches.find(match => match.id === matchId);
+    }
+
+    const live = matches
+      .filter(match => match.status === 'in_progress')
+      .sort((a, b) => (b.startedAt || 0) - (a.startedAt || 0));
+
+    return live[0] || findUpcomingMatches(event)[0];
+  };
+
+  const findUpcomingMatches = (event: TournamentEvent) => {
+    return getAllMatches(event)
+      .filter(match => match.status === 'pending' && match.player1 && match.player2)
+      .sort((a, b) =>
+        Math.abs(a.roundNumber ?? 0) - Math.abs(b.roundNumber ?? 0) ||
+        a.id.localeCompare(b.id, undefined, { numeric: true })
+      );
+  };
+
+  const findPlayer = (event: TournamentEvent) => {
+    if (!player) return undefined;
+    const term = player.toLowerCase();
+
+    return event.participants.find(participant =>
+      participant.id === player ||
+      participant.startggId === player ||
+      participant.tag?.toLowerCase() === term
+    );
+  };
+
+  const getPlayerPath = (event: TournamentEvent, pathPlayer: Player) => {
+    const statusOrder = { completed: 0, in_progress: 1, pending: 2 };
+
+    return getAllMatches(event)
+      .filter(match => match.player1?.id === pathPlayer.id || match.player2?.id === pathPlayer.id)
+      .sort((a, b) =>
+        statusOrder[a.status] - statusOrder[b.status] ||
+        (a.completedAt || a.startedAt || 0) - (b.completedAt || b.startedAt || 0)
+      );
+  };
+
+  const renderContestant = (match: Match, contestant: Player | undefined, score: number | undefined) => {
+    const won = match.status === 'completed' && !!contestant && match.winner?.id === contestant.id;
+    const lost = match.status === 'completed' && !!match.winner && !won;
+
+    return (
+      <div className={`overlay-contestant ${won ? 'winner' : lost ? 'loser' : ''}`}>
+        {contestant?.seed && <span className="overlay-seed">{contestant.seed}</span>}
+        <span className="overlay-player-name">{getPlayerDisplayName(contestant)}</span>
+        {score !== undefined && <span className="overlay-score">{score}</span>}
+      </div>
+    );
+  };
+
+  const renderMatch = (match: Match, featured = false) => (
+    <div key={match.id} className={`overlay-match ${match.status} ${featured ? 'featured' : ''}`}>
+      <div className="overlay-match-round">
+        {match.round}
+        {match.status === 'in_progress' && <span className="overlay-live">LIVE</span>}
+      </div>
+      {renderContestant(match, match.player1, match.score?.player1Score)}
+      {renderContestant(match, match.player2, match.score?.player2Score)}
+    </div>
+  );
+
+  const renderView = (event: TournamentEvent) => {
+    switch (view) {
+      case 'current-match': {
+        const match = findCurrentMatch(event);
+        return match
+          ? renderMatch(match, true)
+          : <div className="overlay-message">No match in progress</div>;
+      }
+      case 'upcoming': {
+        const matches = findUpcomingMatches(event).slice(0, limit);
+        return (
+          <div className="overlay-list">
+            <div className="overlay-title">Up Next</div>
+            {matches.length > 0
+              ? matches.map(match => renderMatch(match))
+              : <div className="overlay-message">No upcoming matches</div>}
+          </div>
+        );
+      }
+      case 'player-path': {
+        const pathPlayer = findPlayer(event);
+        if (!pathPlayer) {
+          return <div className="overlay-message">Player not found</div>;
+        }
+        return (
+          <div className="overlay-list">
+            <div className="overlay-title">Road so far: {getPlayerDisplayName(pathPlayer)}</div>
+            {getPlayerPath(event, pathPlayer).map(match => renderMatch(match))}
+          </div>
+        );
+      }
+      default:
+        return <div className="overlay-message">Unknown overlay view "{view}"</div>;
+    }
+  };
+
+  return (
+    <div className={`overlay overlay-${view}`}>
+      {event
+        ? renderView(event)
+        : !loading && error && <div className="overlay-message">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { PlayerInfo } from './PlayerInfo';
+import type { EventCategories, Player, PlayerCategoryType, PrepSheet } from '@commentary/shared';
+
+interface PlayerCategoriesProps {
+  categories?: EventCategories;
+  loading?: boolean;
+  prepSheets: Record<string, PrepSheet>; // Keyed by Player.id
+  onPlayerSelect: (player: Player) => void;
+  maxPlayers?: number; // Per category
+}
+
+const CATEGORY_SECTIONS: { type: PlayerCategoryType; title: string }[] = [
+  { type: 'major_contender', title: 'Major Contenders' },
+  { type: 'dark_horse', title: 'Dark Horses' },
+  { type: 'losers_run', title: 'Losers Runs' },
+  { type: 'new_contender', title: 'New Contenders' },
+  { type: 'improving', title: 'Improving Players' },
+];
+
+export const PlayerCategories: React.FC<PlayerCategoriesProps> = ({
+  categories,
+  loading,
+  prepSheets,
+  onPlayerSelect,
+  maxPlayers = 5,
+}) => {
+  if (!categories) {
+    return (
+      <div className="player-categories">
+        <p className="no-categories">{loading ? 'Categorizing players…' : 'No player categories available'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="player-categories">
+      {CATEGORY_SECTIONS.map(section => {
+        const entries = categories.players.flatMap(entry => {
+          const category = entry.categories.find(category => category.type === section.type);
+          return category ? [{ player: entry.player, category }] : [];
+        });
+
+        return (
+          <div key={section.type} className="category">
+            <h3>{section.title} ({entries.length})</h3>
+            <div className="player-list">
+              {entries.slice(0, maxPlayers).map(({ player, category }) => (
+                <div
+                  key={player.id}
+                  className="player-item clickable"
+                  onClick={() => onPlayerSelect(player)}
+                >
+                  <PlayerInfo player={player} prepSheet={prepSheets[player.id]} />
+                  <div className="player-category-reason">{category.reason}</div>
+                </div>
+              ))}
+              {entries.length > maxPlayers && (
+                <div className="more-players">
+                  +{entries.length - maxPlayers} more
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,24 +1,48 @@
 import React from 'react';
-import type { Player } from '../types';
+import type { Player, Achievement } from '../types';
+import { usePlayerProfile } from '../hooks/usePlayerProfile';
+import { usePlayerCharacters } from '../hooks/usePlayerCharacters';
+import { NotesPanel } from './NotesPanel';
+import { PrepSheetCard } from './PrepSheetCard';
+import { CharacterUsageList } from './CharacterUsageList';
+import type { PrepSheet, PrepSheetInput, PlayerCharacterStats } from '@commentary/shared';
 
 interface PlayerInfoProps {
   player: Player;
   detailed?: boolean;
+  tournamentSlug?: string; // Enables commentator notes in the detailed view
+  prepSheet?: PrepSheet;
+  onPrepSheetSave?: (input: PrepSheetInput) => Promise<boolean>; // Enables prep sheet editing in the detailed view
+  prepSheetError?: string;
+  eventCharacters?: PlayerCharacterStats; // The player's picks in the current event
 }
 
-export const PlayerInfo: React.FC<PlayerInfoProps> = ({ player, detailed = false }) => {
+export const PlayerInfo: React.FC<PlayerInfoProps> = ({
+  player,
+  detailed = false,
+  tournamentSlug,
+  prepSheet,
+  onPrepSheetSave,
+  prepSheetError,
+  eventCharacters,
+}) => {
+  // Cross-tournament history is only fetched for the detailed view
+  const { profile, loading: profileLoading } = usePlayerProfile(detailed ? player.startggId : undefined);
+  const { history: characterHistory } = usePlayerCharacters(detailed ? player.startggId : undefined);
+  const tournamentHistory = profile?.tournamentHistory ?? player.tournamentHistory;
+
   const getPlayerDisplayName = () => {
     return player.tag || player.name || 'Unknown Player';
   };
 
   const getPerformanceTrend = () => {
     // Since we don't have ELO data, analyze tournament performance
-    if (!player.tournamentHistory || player.tournamentHistory.length < 2) {
+    if (!tournamentHistory || tournamentHistory.length < 2) {
       return { trend: 'stable', info: 'Limited data' };
     }
 
-    const recent = player.tournamentHistory.slice(-3);
-    const older = player.tournamentHistory.slice(0, -3);
+    const recent = tournamentHistory.slice(-3);
+    const older = tournamentHistory.slice(0, -3);
     
     if (recent.length === 0 || older.length === 0) {
       return { trend: 'stable', info: 'Limited data' };
@@ -36,13 +60,17 @@ export const PlayerInfo: React.FC<PlayerInfoProps> = ({ player, detailed = false
     return { trend: 'stable', info: 'Consistent performance' };
   };
 
-  const getRecentAchievements = () => {
-    if (!player.tournamentHistory) return [];
+  const getRecentAchievements = (): Achievement[] => {
+    const achievements = profile?.achievements ?? player.achievements;
+    if (achievements) return achievements.slice(0, 5); // Most recent 5
+
+    if (!tournamentHistory) return [];
     
-    return player.tournamentHistory
+    return tournamentHistory
       .filter(t => t.placement <= 8) // Top 8 placements only
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, 5); // Most recent 5
+      .slice(0, 5) // Most recent 5
+      .map(t => ({ tournament: t.name, placement: t.placement, date: t.date, participants: t.participants }));
   };
 
   const performanceTrend = getPerformanceTrend();
@@ -59,12 +87,24 @@ export const PlayerInfo: React.FC<PlayerInfoProps> = ({ player, detailed = false
         </div>
       </div>
 
+      {/* The compact view keeps the pinned prep within reach on air */}
+      {!detailed && (prepSheet?.storyline || prepSheet?.pronunciation) && (
+        <div className="player-prep-pinned">
+          {prepSheet.pronunciation && <span className="prep-pronunciation">🗣 {prepSheet.pronunciation}</span>}
+          {prepSheet.storyline && <span className="prep-storyline">📌 {prepSheet.storyline}</span>}
+        </div>
+      )}
+
       {detailed && (
         <>
+          {(prepSheet || onPrepSheetSave) && (
+            <PrepSheetCard sheet={prepSheet} onSave={onPrepSheetSave} error={prepSheetError} />
+          )}
+
           <div className="player-stats">
             <div className="stat-item">
               <label>Tournament Count:</label>
-              <span>{player.tournamentHistory?.length || 0}</span>
+              <span>{profileLoading ? '…' : tournamentHistory?.length || 0}</span>
             </div>
             
             {player.startggId && (
@@ -75,6 +115,24 @@ export const PlayerInfo: React.FC<PlayerInfoProps> = ({ player, detailed = false
             )}
           </div>
 
+          {(!!eventCharacters?.characters.length || !!characterHistory?.characters.length) && (
+            <div className="player-characters">
+              <h4>Characters</h4>
+              {!!eventCharacters?.characters.length && (
+                <div className="player-characters-group">
+                  <span className="player-characters-label">This event</span>
+                  <CharacterUsageList characters={eventCharacters.characters} />
+                </div>
+              )}
+              {!!characterHistory?.characters.length && (
+                <div className="player-characters-group">
+                  <span className="player-characters-label">Recent sets ({characterHistory.games} games)</span>
+                  <CharacterUsageList characters={characterHistory.characters} />
+                </div>
+              )}
+            </div>
+          )}
+
           {recentAchievements.length > 0 && (
             <div className="achievements">
               <h4>Recent Achievements</h4>
@@ -88,9 +146,9 @@ export const PlayerInfo: React.FC<PlayerInfoProps> = ({ player, detailed = false
                        `#${achievement.placement}`}
                     </div>
                     <div className="achievement-details">
-                      <div className="tournament-name">{achievement.name}</div>
+                      <div className="tournament-name">{achievement.tournament}</div>
                       <div className="tournament-meta">
-                        {achievement.participants > 0 && (
+                        {!!achievement.participants && (
                           <span>{achievement.participants} entrants</span>
                         )}
                         <span>{new Date(achievement.date).toLocaleDateString()}</span>
@@ -102,11 +160,11 @@ export const PlayerInfo: React.FC<PlayerInfoProps> = ({ player, detailed = false
             </div>
           )}
 
-          {player.tournamentHistory && player.tournamentHistory.length > 1 && (
+          {tournamentHistory && tournamentHistory.length > 1 && (
             <div className="tournament-history">
               <h4>Recent Tournament History</h4>
               <div className="history-chart">
-                {player.tournamentHistory.slice(-5).map((tournament, index) => (
+                {tournamentHistory.slice(-5).map((tournament, index) => (
                   <div key={index} className="tournament-entry">
                     <div className="tournament-date">
                       {new Date(tournament.date).toLocaleDateString()}
@@ -144,6 +202,10 @@ export const PlayerInfo: React.FC<PlayerInfoProps> = ({ player, detailed = false
               </ul>
             </div>
           )}
+
+          {tournamentSlug && (
+            <NotesPanel tournamentSlug={tournamentSlug} playerId={player.id} title="Commentator Notes" />
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import type { PrepSheet, PrepSheetInput } from '@commentary/shared';
+
+interface PrepSheetCardProps {
+  sheet?: PrepSheet;
+  onSave?: (input: PrepSheetInput) => Promise<boolean>; // Enables editing
+  error?: string;
+}
+
+interface PrepSheetForm {
+  storyline: string;
+  pronunciation: string;
+  talkingPoints: string; // One per line
+}
+
+const toForm = (sheet?: PrepSheet): PrepSheetForm => ({
+  storyline: sheet?.storyline ?? '',
+  pronunciation: sheet?.pronunciation ?? '',
+  talkingPoints: sheet?.talkingPoints.join('\n') ?? '',
+});
+
+/**
+ * Shared commentary prep for a player: pinned storyline, pronunciation
+ * guide and talking points
+ */
+export const PrepSheetCard: React.FC<PrepSheetCardProps> = ({ sheet, onSave, error }) => {
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState<PrepSheetForm>(() => toForm(sheet));
+  const [saving, setSaving] = useState(false);
+
+  // Pick up edits made by other commentators while not editing
+  useEffect(() => {
+    if (!editing) setForm(toForm(sheet));
+  }, [sheet, editing]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onSave) return;
+
+    setSaving(true);
+    const saved = await onSave({
+      storyline: form.storyline.trim(),
+      pronunciation: form.pronunciation.trim(),
+      talkingPoints: form.talkingPoints.split('\n').map(point => point.trim()).filter(point => point.length > 0),
+    });
+    setSaving(false);
+
+    if (saved) setEditing(false);
+  };
+
+  const updateField = (field: keyof PrepSheetForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const isEmpty = !sheet?.storyline && !sheet?.pronunciation && !sheet?.talkingPoints.length;
+
+  return (
+    <div className="prep-sheet">
+      <div className="prep-sheet-header">
+        <h4>Prep Sheet</h4>
+        {onSave && !editing && (
+          <button type="button" onClick={() => setEditing(true)}>{isEmpty ? 'Add' : 'Edit'}</button>
+        )}
+      </div>
+
+      {editing ? (
+        <form className="prep-sheet-form" onSubmit={handleSave}>
+          <label htmlFor="prep-storyline">Storyline</label>
+          <textarea id="prep-storyline" value={form.storyline} onChange={updateField('storyline')} rows={2} />
+
+          <label htmlFor="prep-pronunciation">Pronunciation</label>
+          <input id="prep-pronunciation" value={form.pronunciation} onChange={updateField('pronunciation')} />
+
+          <label htmlFor="prep-talking-points">Talking points (one per line)</label>
+          <textarea id="prep-talking-points" value={form.talkingPoints} onChange={updateField('talkingPoints')} rows={4} />
+
+          <div className="prep-sheet-actions">
+            <button type="submit" disabled={saving}>Save</button>
+            <button type="button" onClick={() => setEditing(false)} disabled={saving}>Cancel</button>
+          </div>
+        </form>
+      ) : isEmpty ? (
+        <p className="prep-sheet-empty">No prep yet</p>
+      ) : (
+        <>
+          {sheet?.storyline && <p className="prep-storyline">{sheet.storyline}</p>}
+          {sheet?.pronunciation && (
+            <p className="prep-pronunciation">🗣 {sheet.pronunciation}</p>
+          )}
+          {!!sheet?.talkingPoints.length && (
+            <ul className="prep-talking-points">
+              {sheet.talkingPoints.map((point, index) => (
+                <li key={index}>{point}</li>
+              ))}
+            </ul>
+          )}
+          {sheet && (
+            <div className="prep-sheet-meta">
+              Updated {new Date(sheet.updatedAt).toLocaleString()}
+              {sheet.updatedBy && ` by ${sheet.updatedBy}`}
+            </div>
+          )}
+        </>
+      )}
+
+      {error && <p className="prep-sheet-error">{error}</p>}
+    </div>
+  );
+};
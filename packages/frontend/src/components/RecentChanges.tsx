@@ -0,0 +1,129 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { backendApi } from '../services/backendApi';
+import type { TournamentChange, Player } from '@commentary/shared';
+
+interface RecentChangesProps {
+  tournamentSlug: string;
+  eventId?: string;
+  refreshKey?: number; // Bump to fetch immediately (e.g. on live update)
+  maxItems?: number;
+}
+
+const POLL_INTERVAL = 30000;
+
+export const RecentChanges: React.FC<RecentChangesProps> = ({
+  tournamentSlug,
+  eventId,
+  refreshKey,
+  maxItems = 15,
+}) => {
+  const [changes, setChanges] = useState<TournamentChange[]>([]);
+  const lastFetchedAt = useRef(0);
+
+  // Reset the feed when switching tournaments
+  useEffect(() => {
+    setChanges([]);
+    lastFetchedAt.current = 0;
+  }, [tournamentSlug]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchChanges = async () => {
+      try {
+        const response = await backendApi.getTournamentChanges(tournamentSlug, lastFetchedAt.current);
+        if (cancelled) return;
+
+        lastFetchedAt.current = response.until;
+        if (response.changes.length > 0) {
+          setChanges(prev => [...prev, ...response.changes].slice(-100));
+        }
+      } catch (error) {
+        console.warn('Failed to load recent changes:', error);
+      }
+    };
+
+    fetchChanges();
+    const interval = setInterval(fetchChanges, POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [tournamentSlug, refreshKey]);
+
+  const getPlayerDisplayName = (player: Player | undefined) => {
+    if (!player) return 'TBD';
+    return player.tag || player.name || 'Unknown';
+  };
+
+  const describeChange = (change: TournamentChange) => {
+    const match = change.match;
+    const player1 = getPlayerDisplayName(match?.player1);
+    const player2 = getPlayerDisplayName(match?.player2);
+    const score = match?.score ? `${match.score.player1Score} - ${match.score.player2Score}` : '';
+
+    switch (change.type) {
+      case 'match_started':
+        return { icon: '⚡', text: `${player1} vs ${player2} started` };
+      case 'score_changed': {
+        const previous = change.previousScore
+          ? ` (was ${change.previousScore.player1Score} - ${change.previousScore.player2Score})`
+          : '';
+        return { icon: '📊', text: `${player1} ${score} ${player2}${previous}` };
+      }
+      case 'match_completed': {
+        if (!match?.winner) {
+          return { icon: '✅', text: `${player1} vs ${player2} finished ${score}` };
+        }
+        const loser = match.winner.id === match.player1?.id ? player2 : player1;
+        return { icon: '✅', text: `${getPlayerDisplayName(match.winner)} beat ${loser} ${score}` };
+      }
+      case 'entrant_added':
+        return { icon: '👤', text: `${getPlayerDisplayName(change.player)} entered` };
+      case 'bracket_added':
+        return { icon: '🗂️', text: `${change.bracket?.name || 'New bracket'} added` };
+      default:
+        return { icon: '•', text: change.type };
+    }
+  };
+
+  const formatDetectedAt = (detectedAt: number) => {
+    const secondsAgo = Math.floor((Date.now() - detectedAt) / 1000);
+    if (secondsAgo < 60) return 'just now';
+    if (secondsAgo < 3600) return `${Math.floor(secondsAgo / 60)}m ago`;
+    return `${Math.floor(secondsAgo / 3600)}h ago`;
+  };
+
+  const visibleChanges = changes
+    .filter(change => !eventId || change.eventId === eventId)
+    .slice(-maxItems)
+    .reverse(); // Most recent first
+
+  return (
+    <div className="recent-changes">
+      <h3>What Just Happened</h3>
+      {visibleChanges.length > 0 ? (
+        <ul className="changes-list">
+          {visibleChanges.map(change => {
+            const { icon, text } = describeChange(change);
+            return (
+              <li key={change.id} className={`change-item change-${change.type}`}>
+                <span className="change-icon">{icon}</span>
+                <div className="change-details">
+                  <div className="change-text">{text}</div>
+                  <div className="change-meta">
+                    {change.match?.round && <span>{change.match.round}</span>}
+                    <span>{formatDetectedAt(change.detectedAt)}</span>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="no-changes">No changes detected yet</p>
+      )}
+    </div>
+  );
+};
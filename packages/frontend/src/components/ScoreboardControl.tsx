@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { backendApi, toRouteSlug } from '../services/backendApi';
+import { useScoreboard } from '../hooks/useScoreboard';
+import type { Match, Player, ScoreboardOverride, ScoreboardUpdate } from '@commentary/shared';
+
+interface ScoreboardControlProps {
+  tournamentSlug: string;
+  eventSlug: string;
+  matches: Match[];
+}
+
+interface OverrideForm {
+  player1Tag: string;
+  player2Tag: string;
+  player1Score: string;
+  player2Score: string;
+  round: string;
+}
+
+const EMPTY_FORM: OverrideForm = { player1Tag: '', player2Tag: '', player1Score: '', player2Score: '', round: '' };
+
+/**
+ * Producer controls for the scoreboard overlay: pick the set on the
+ * scoreboard and correct tags, scores or round while start.gg lags behind
+ */
+export const ScoreboardControl: React.FC<ScoreboardControlProps> = ({
+  tournamentSlug,
+  eventSlug,
+  matches,
+}) => {
+  const { scoreboard, error, setScoreboard } = useScoreboard(tournamentSlug, eventSlug, 5000);
+  const [form, setForm] = useState<OverrideForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const override = scoreboard?.override;
+
+  // Show the saved override, e.g. after another producer changed it or it was cleared
+  useEffect(() => {
+    setForm({
+      player1Tag: override?.player1Tag ?? '',
+      player2Tag: override?.player2Tag ?? '',
+      player1Score: override?.player1Score?.toString() ?? '',
+      player2Score: override?.player2Score?.toString() ?? '',
+      round: override?.round ?? '',
+    });
+  }, [scoreboard?.matchId, override?.player1Tag, override?.player2Tag, override?.player1Score, override?.player2Score, override?.round]);
+
+  const getPlayerDisplayName = (player: Player | undefined) => {
+    if (!player) return 'TBD';
+    return player.tag || player.name || 'Unknown';
+  };
+
+  const saveUpdate = async (update: ScoreboardUpdate) => {
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      setScoreboard(await backendApi.updateScoreboard(tournamentSlug, eventSlug, update));
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to update scoreboard');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApplyOverride = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Blank fields fall back to start.gg's data
+    const formOverride: ScoreboardOverride = {
+      player1Tag: form.player1Tag.trim() || undefined,
+      player2Tag: form.player2Tag.trim() || undefined,
+      player1Score: form.player1Score !== '' ? Number(form.player1Score) : undefined,
+      player2Score: form.player2Score !== '' ? Number(form.player2Score) : undefined,
+      round: form.round.trim() || undefined,
+    };
+    const hasOverride = Object.values(formOverride).some(value => value !== undefined);
+
+    saveUpdate({ override: hasOverride ? formOverride : null });
+  };
+
+  const updateField = (field: keyof OverrideForm) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const overlayUrl = `${window.location.origin}/overlay/${toRouteSlug(tournamentSlug)}/${toRouteSlug(eventSlug)}?view=scoreboard`;
+  const liveMatch = scoreboard?.match;
+
+  return (
+    <div className="scoreboard-control">
+      <h3>Scoreboard</h3>
+
+      <label className="scoreboard-control-label" htmlFor="scoreboard-match">Set on stream</label>
+      <select
+        id="scoreboard-match"
+        value={scoreboard?.matchId || ''}
+        onChange={(e) => saveUpdate({ matchId: e.target.value || null })}
+        disabled={saving}
+      >
+        <option value="">None</option>
+        {/* Keep the selected set listed after it drops out of the current matches */}
+        {liveMatch && !matches.some(match => match.id === liveMatch.id) && (
+          <option value={liveMatch.id}>
+            {getPlayerDisplayName(liveMatch.player1)} vs {getPlayerDisplayName(liveMatch.player2)} ({liveMatch.round})
+          </option>
+        )}
+        {matches.map(match => (
+          <option key={match.id} value={match.id}>
+            {getPlayerDisplayName(match.player1)} vs {getPlayerDisplayName(match.player2)} ({match.round})
+          </option>
+        ))}
+      </select>
+
+      {liveMatch && (
+        <>
+          <div className="scoreboard-control-live">
+            start.gg: {getPlayerDisplayName(liveMatch.player1)}{' '}
+            {liveMatch.score ? `${liveMatch.score.player1Score} - ${liveMatch.score.player2Score}` : 'vs'}{' '}
+            {getPlayerDisplayName(liveMatch.player2)}
+          </div>
+
+          <form className="scoreboard-override-form" onSubmit={handleApplyOverride}>
+            <div className="scoreboard-override-row">
+              <input placeholder={getPlayerDisplayName(liveMatch.player1)} value={form.player1Tag} onChange={updateField('player1Tag')} />
+              <input type="number" min={0} placeholder={`${liveMatch.score?.player1Score ?? 0}`} value={form.player1Score} onChange={updateField('player1Score')} />
+            </div>
+            <div className="scoreboard-override-row">
+              <input placeholder={getPlayerDisplayName(liveMatch.player2)} value={form.player2Tag} onChange={updateField('player2Tag')} />
+              <input type="number" min={0} placeholder={`${liveMatch.score?.player2Score ?? 0}`} value={form.player2Score} onChange={updateField('player2Score')} />
+            </div>
+            <input placeholder={liveMatch.round} value={form.round} onChange={updateField('round')} />
+
+            <div className="scoreboard-override-actions">
+              <button type="submit" disabled={saving}>Apply override</button>
+              {override && (
+                <button type="button" onClick={() => saveUpdate({ override: null })} disabled={saving}>
+                  Clear override
+                </button>
+              )}
+            </div>
+          </form>
+
+          {override && (
+            <p className="scoreboard-control-note">Override active until start.gg reports the set completed</p>
+          )}
+        </>
+      )}
+
+      {(saveError || error) && <p className="scoreboard-control-error">{saveError || error}</p>}
+
+      <a className="scoreboard-overlay-link" href={overlayUrl} target="_blank" rel="noreferrer">
+        Open scoreboard overlay
+      </a>
+    </div>
+  );
+};
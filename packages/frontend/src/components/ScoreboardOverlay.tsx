@@ -0,0 +1,46 @@
+import React, { useEffect } from 'react';
+import { useScoreboard } from '../hooks/useScoreboard';
+import type { Player } from '@commentary/shared';
+
+interface ScoreboardOverlayProps {
+  slug: string;
+  eventSlug: string;
+}
+
+export const ScoreboardOverlay: React.FC<ScoreboardOverlayProps> = ({ slug, eventSlug }) => {
+  const { scoreboard } = useScoreboard(slug, eventSlug);
+
+  // OBS browser sources composite the page, so nothing may paint the background
+  useEffect(() => {
+    document.body.classList.add('overlay-mode');
+    return () => document.body.classList.remove('overlay-mode');
+  }, []);
+
+  const getPlayerDisplayName = (player: Player | undefined) => {
+    if (!player) return 'TBD';
+    return player.tag || player.name || 'Unknown';
+  };
+
+  const match = scoreboard?.display;
+
+  // An empty scoreboard stays invisible on stream
+  if (!match) {
+    return <div className="overlay overlay-scoreboard" />;
+  }
+
+  return (
+    <div className="overlay overlay-scoreboard">
+      <div className="scoreboard">
+        <div className="scoreboard-player player1">
+          <span className="scoreboard-tag">{getPlayerDisplayName(match.player1)}</span>
+          <span className="scoreboard-score">{match.score?.player1Score ?? 0}</span>
+        </div>
+        <div className="scoreboard-round">{match.round}</div>
+        <div className="scoreboard-player player2">
+          <span className="scoreboard-score">{match.score?.player2Score ?? 0}</span>
+          <span className="scoreboard-tag">{getPlayerDisplayName(match.player2)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import type { Tournament, Match, Player, StreamQueue } from '@commentary/shared';
+
+interface StreamQueuePanelProps {
+  tournament: Tournament;
+  maxUpNext?: number;
+}
+
+interface ResolvedQueue {
+  queue: StreamQueue;
+  onStream?: Match;
+  upNext: Match[];
+}
+
+/**
+ * What's on each stream right now and what the stream queue has lined up next
+ */
+export const StreamQueuePanel: React.FC<StreamQueuePanelProps> = ({ tournament, maxUpNext = 3 }) => {
+  const queues = useMemo(() => {
+    const matchesById = new Map<string, Match>();
+    for (const event of tournament.events) {
+      for (const match of event.brackets.flatMap(bracket => bracket.matches)) {
+        matchesById.set(match.id, match);
+      }
+    }
+
+    return (tournament.streamQueues || []).map((queue): ResolvedQueue => {
+      // Sets of events that aren't loaded can't be shown
+      const queued = queue.matchIds
+        .map(id => matchesById.get(id))
+        .filter((match): match is Match => !!match && match.status !== 'completed');
+
+      const onStream = queued.find(match => match.status === 'in_progress');
+
+      return {
+        queue,
+        onStream,
+        upNext: queued.filter(match => match !== onStream).slice(0, maxUpNext),
+      };
+    });
+  }, [tournament, maxUpNext]);
+
+  const getPlayerDisplayName = (player: Player | undefined) => {
+    if (!player) return 'TBD';
+    return player.tag || player.name || 'Unknown';
+  };
+
+  const renderMatch = (match: Match) => (
+    <>
+      <div className="stream-queue-players">
+        {getPlayerDisplayName(match.player1)}
+        {match.status === 'in_progress' && match.score
+          ? ` ${match.score.player1Score} - ${match.score.player2Score} `
+          : ' vs '}
+        {getPlayerDisplayName(match.player2)}
+      </div>
+      <div className="stream-queue-meta">
+        {match.bracketName} · {match.round}
+        {match.station && ` · Station ${match.station}`}
+      </div>
+    </>
+  );
+
+  return (
+    <div className="stream-queue-panel">
+      <h3>Stream Queue</h3>
+      {queues.length > 0 ? (
+        queues.map(({ queue, onStream, upNext }) => (
+          <div key={queue.stream.id} className="stream-queue">
+            <h4 className="stream-name">📺 {queue.stream.name}</h4>
+
+            <div className="stream-queue-section">
+              <span className="stream-queue-label">On stream</span>
+              {onStream ? (
+                <div className="stream-queue-item on-stream">{renderMatch(onStream)}</div>
+              ) : (
+                <p className="stream-queue-empty">Nothing live</p>
+              )}
+            </div>
+
+            <div className="stream-queue-section">
+              <span className="stream-queue-label">Up next</span>
+              {upNext.length > 0 ? (
+                <ol className="stream-queue-list">
+                  {upNext.map(match => (
+                    <li key={match.id} className="stream-queue-item">{renderMatch(match)}</li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="stream-queue-empty">Queue is empty</p>
+              )}
+            </div>
+          </div>
+        ))
+      ) : (
+        <p className="stream-queue-empty">No stream queue set up for this tournament</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { TournamentSession } from '../hooks/useTournamentData';
+
+interface TournamentTabsProps {
+  sessions: TournamentSession[];
+  activeSessionId?: string;
+  liveNowActive: boolean;
+  liveMatchCount: number;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onSelectLiveNow: () => void;
+}
+
+export const TournamentTabs: React.FC<TournamentTabsProps> = ({
+  sessions,
+  activeSessionId,
+  liveNowActive,
+  liveMatchCount,
+  onSelect,
+  onClose,
+  onSelectLiveNow,
+}) => {
+  const getSessionLabel = (session: TournamentSession) => {
+    if (!session.tournament) return session.eventName || session.url;
+    return session.selectedEvent
+      ? `${session.tournament.name} · ${session.selectedEvent.name}`
+      : session.tournament.name;
+  };
+
+  return (
+    <div className="tournament-tabs" role="tablist">
+      {sessions.map(session => (
+        <div
+          key={session.id}
+          role="tab"
+          aria-selected={!liveNowActive && session.id === activeSessionId}
+          className={`tournament-tab ${!liveNowActive && session.id === activeSessionId ? 'active' : ''}`}
+          onClick={() => onSelect(session.id)}
+          title={session.url}
+        >
+          {session.liveUpdates && <span className="tab-live-dot" title="Live updates on" />}
+          <span className="tab-label">{session.loading && !session.tournament ? 'Loading…' : getSessionLabel(session)}</span>
+          <button
+            type="button"
+            className="tab-close"
+            onClick={(e) => {
+              e.stopPropagation();
+              onClose(session.id);
+            }}
+            title="Close tab"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      {sessions.length > 1 && (
+        <div
+          role="tab"
+          aria-selected={liveNowActive}
+          className={`tournament-tab live-now-tab ${liveNowActive ? 'active' : ''}`}
+          onClick={onSelectLiveNow}
+        >
+          <span className="tab-label">⚡ Live Now ({liveMatchCount})</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useMemo } from 'react';
+import type { TournamentEvent, Match, Player } from '@commentary/shared';
+
+interface UpsetsFeedProps {
+  event?: TournamentEvent;
+  maxItems?: number;
+}
+
+export const UpsetsFeed: React.FC<UpsetsFeedProps> = ({ event, maxItems = 10 }) => {
+  const upsets = useMemo(() => {
+    if (!event) return [];
+
+    return event.brackets
+      .flatMap(bracket => bracket.matches)
+      .filter((match): match is Match & { winner: Player } => !!match.winner && (match.upsetFactor ?? 0) > 0)
+      .sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0))
+      .slice(0, maxItems);
+  }, [event, maxItems]);
+
+  const getPlayerDisplayName = (player: Player | undefined) => {
+    if (!player) return 'TBD';
+    return player.tag || player.name || 'Unknown';
+  };
+
+  return (
+    <div className="upsets-feed">
+      <h3>Upsets</h3>
+      {upsets.length > 0 ? (
+        <ul className="upsets-list">
+          {upsets.map(match => {
+            const loser = match.winner.id === match.player1?.id ? match.player2 : match.player1;
+            const score = match.score ? `${match.score.player1Score} - ${match.score.player2Score}` : '';
+
+            return (
+              <li key={match.id} className={`upset-item ${(match.upsetFactor ?? 0) >= 3 ? 'major' : ''}`}>
+                <span className="upset-factor">+{match.upsetFactor}</span>
+                <div className="upset-details">
+                  <div className="upset-text">
+                    <strong>{getPlayerDisplayName(match.winner)}</strong>
+                    {match.winner.seed && <span className="player-seed">#{match.winner.seed}</span>}
+                    {' beat '}
+                    {getPlayerDisplayName(loser)}
+                    {loser?.seed && <span className="player-seed">#{loser.seed}</span>}
+                    {score && <span className="upset-score">{score}</span>}
+                  </div>
+                  <div className="upset-meta">
+                    <span>{match.bracketName} · {match.round}</span>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="no-upsets">No upsets yet</p>
+      )}
+    </div>
+  );
+};
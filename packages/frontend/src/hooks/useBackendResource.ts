@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import type { DependencyList } from 'react';
+
+export interface BackendResourceState<T> {
+  data?: T;
+  loading: boolean;
+  error?: string;
+}
+
+/**
+ * Load a resource from the BFF and reload it whenever `deps` change
+ * The last loaded data stays in place while a reload is in flight, so live refreshes don't flicker
+ * @param fetcher - Loads the resource, or undefined when its arguments are missing and nothing should be loaded
+ * @param deps - Everything the fetcher reads; the resource is reloaded when any of them changes
+ */
+export const useBackendResource = <T>(fetcher: (() => Promise<T>) | undefined, deps: DependencyList): BackendResourceState<T> => {
+  const [state, setState] = useState<BackendResourceState<T>>({ loading: false });
+
+  useEffect(() => {
+    if (!fetcher) {
+      setState({ loading: false });
+      return;
+    }
+
+    let cancelled = false;
+    setState(prev => ({ data: prev.data, loading: true }));
+
+    fetcher()
+      .then(data => {
+        if (!cancelled) {
+          setState({ data, loading: false });
+        }
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setState({ loading: false, error: error instanceof Error ? error.message : 'Failed to load' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // The fetcher is a new closure on every render, deps say when it actually changed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+
+  return state;
+};
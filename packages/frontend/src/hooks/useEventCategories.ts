@@ -0,0 +1,18 @@
+import type { EventCategories } from '@commentary/shared';
+import { backendApi } from '../services/backendApi';
+import { useBackendResource } from './useBackendResource';
+
+/**
+ * Load an event's player categories from the BFF
+ * @param slug - Tournament slug
+ * @param eventSlug - Event slug as it appears in start.gg URLs
+ * @param refreshKey - Reload whenever this changes (e.g. the event was updated)
+ */
+export const useEventCategories = (slug?: string, eventSlug?: string, refreshKey?: unknown) => {
+  const { data, loading, error } = useBackendResource<EventCategories>(
+    slug && eventSlug ? () => backendApi.getEventCategories(slug, eventSlug).then(response => response.data) : undefined,
+    [slug, eventSlug, refreshKey]
+  );
+
+  return { categories: data, loading, error };
+};
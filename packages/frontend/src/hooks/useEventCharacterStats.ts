@@ -0,0 +1,18 @@
+import type { EventCharacterStats } from '@commentary/shared';
+import { backendApi } from '../services/backendApi';
+import { useBackendResource } from './useBackendResource';
+
+/**
+ * Load an event's character usage from the BFF
+ * @param slug - Tournament slug
+ * @param eventSlug - Event slug as it appears in start.gg URLs
+ * @param refreshKey - Reload whenever this changes (e.g. the event was updated)
+ */
+export const useEventCharacterStats = (slug?: string, eventSlug?: string, refreshKey?: unknown) => {
+  const { data, loading, error } = useBackendResource<EventCharacterStats>(
+    slug && eventSlug ? () => backendApi.getEventCharacterStats(slug, eventSlug).then(response => response.data) : undefined,
+    [slug, eventSlug, refreshKey]
+  );
+
+  return { stats: data, loading, error };
+};
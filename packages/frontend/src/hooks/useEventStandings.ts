@@ -0,0 +1,18 @@
+import type { EventStandings } from '@commentary/shared';
+import { backendApi } from '../services/backendApi';
+import { useBackendResource } from './useBackendResource';
+
+/**
+ * Load an event's final and projected placements from the BFF
+ * @param slug - Tournament slug
+ * @param eventSlug - Event slug as it appears in start.gg URLs
+ * @param refreshKey - Reload whenever this changes (e.g. the event was updated)
+ */
+export const useEventStandings = (slug?: string, eventSlug?: string, refreshKey?: unknown) => {
+  const { data, loading, error } = useBackendResource<EventStandings>(
+    slug && eventSlug ? () => backendApi.getEventStandings(slug, eventSlug).then(response => response.data) : undefined,
+    [slug, eventSlug, refreshKey]
+  );
+
+  return { standings: data, loading, error };
+};
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import type { Tournament, TournamentEvent } from '@commentary/shared';
+import { backendApi } from '../services/backendApi';
+
+interface LiveEventState {
+  tournament?: Tournament;
+  event?: TournamentEvent;
+  loading: boolean;
+  error?: string;
+}
+
+/**
+ * Load a single event and keep it updated over the BFF's live stream
+ * @param slug - Tournament slug
+ * @param eventSlug - Event slug as it appears in start.gg URLs
+ */
+export const useLiveEvent = (slug: string, eventSlug: string) => {
+  const [state, setState] = useState<LiveEventState>({ loading: true });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ loading: true });
+
+    const applyTournament = (tournament: Tournament) => {
+      if (cancelled) return;
+
+      const event = tournament.events[0];
+      setState(event
+        ? { tournament, event, loading: false }
+        : { loading: false, error: `Event "${eventSlug}" not found in tournament "${slug}"` });
+    };
+
+    backendApi.getTournamentBySlug(slug, false, eventSlug)
+      .then(response => applyTournament(response.data))
+      .catch(error => {
+        if (!cancelled) {
+          setState({ loading: false, error: error instanceof Error ? error.message : 'Failed to load event' });
+        }
+      });
+
+    // Keep the last good data on stream errors, the stream retries by itself
+    const unsubscribe = backendApi.subscribeToTournament(
+      slug,
+      response => applyTournament(response.data),
+      message => console.warn('Live event update failed:', message),
+      eventSlug
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [slug, eventSlug]);
+
+  return state;
+};
@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react';
+import type { Note } from '@commentary/shared';
+import { backendApi } from '../services/backendApi';
+
+interface NotesState {
+  notes: Note[];
+  loading: boolean;
+  error?: string;
+}
+
+/**
+ * Load and edit commentator notes about a player and/or match
+ * @param slug - Tournament slug, nothing is loaded without one
+ * @param playerId - Player.id the notes are about
+ * @param matchId - Match.id the notes are about
+ */
+export const useNotes = (slug?: string, playerId?: string, matchId?: string) => {
+  const [state, setState] = useState<NotesState>({ notes: [], loading: false });
+
+  useEffect(() => {
+    if (!slug) {
+      setState({ notes: [], loading: false });
+      return;
+    }
+
+    let cancelled = false;
+    setState({ notes: [], loading: true });
+
+    backendApi.getNotes(slug, { playerId, matchId })
+      .then(notes => {
+        if (!cancelled) setState({ notes, loading: false });
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setState({ notes: [], loading: false, error: error instanceof Error ? error.message : 'Failed to load notes' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, playerId, matchId]);
+
+  const runMutation = async (mutation: () => Promise<(notes: Note[]) => Note[]>) => {
+    try {
+      const apply = await mutation();
+      setState(prev => ({ ...prev, notes: apply(prev.notes), error: undefined }));
+    } catch (error) {
+      setState(prev => ({ ...prev, error: error instanceof Error ? error.message : 'Failed to save note' }));
+    }
+  };
+
+  const addNote = (text: string) => runMutation(async () => {
+    const note = await backendApi.createNote(slug!, { text, playerId, matchId });
+    return notes => [...notes, note];
+  });
+
+  const editNote = (id: string, text: string) => runMutation(async () => {
+    const note = await backendApi.updateNote(slug!, id, text);
+    return notes => notes.map(existing => existing.id === id ? note : existing);
+  });
+
+  const removeNote = (id: string) => runMutation(async () => {
+    await backendApi.deleteNote(slug!, id);
+    return notes => notes.filter(note => note.id !== id);
+  });
+
+  return { ...state, addNote, editNote, removeNote };
+};
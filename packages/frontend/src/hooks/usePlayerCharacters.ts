@@ -0,0 +1,16 @@
+import type { PlayerCharacterStats } from '@commentary/shared';
+import { backendApi } from '../services/backendApi';
+import { useBackendResource } from './useBackendResource';
+
+/**
+ * Load the characters a player picked across their recent sets from the BFF
+ * @param startggId - start.gg player id, nothing is loaded without one
+ */
+export const usePlayerCharacters = (startggId?: string) => {
+  const { data, loading, error } = useBackendResource<PlayerCharacterStats>(
+    startggId ? () => backendApi.getPlayerCharacterHistory(startggId).then(response => response.data) : undefined,
+    [startggId]
+  );
+
+  return { history: data, loading, error };
+};
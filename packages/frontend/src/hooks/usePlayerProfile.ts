@@ -0,0 +1,16 @@
+import type { PlayerProfile } from '@commentary/shared';
+import { backendApi } from '../services/backendApi';
+import { useBackendResource } from './useBackendResource';
+
+/**
+ * Load a player's cross-tournament history from the BFF
+ * @param startggId - start.gg player id, nothing is loaded without one
+ */
+export const usePlayerProfile = (startggId?: string) => {
+  const { data, loading, error } = useBackendResource<PlayerProfile>(
+    startggId ? () => backendApi.getPlayerProfile(startggId).then(response => response.data) : undefined,
+    [startggId]
+  );
+
+  return { profile: data, loading, error };
+};
@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import type { PrepSheet, PrepSheetInput } from '@commentary/shared';
+import { backendApi } from '../services/backendApi';
+
+interface PrepSheetsState {
+  sheets: Record<string, PrepSheet>; // Keyed by Player.id
+  loading: boolean;
+  error?: string;
+}
+
+/**
+ * Load and edit a tournament's shared commentary prep sheets
+ * @param slug - Tournament slug, nothing is loaded without one
+ * @param refreshKey - Reload when this changes, e.g. to pick up other commentators' edits
+ */
+export const usePrepSheets = (slug?: string, refreshKey?: unknown) => {
+  const [state, setState] = useState<PrepSheetsState>({ sheets: {}, loading: false });
+
+  useEffect(() => {
+    if (!slug) {
+      setState({ sheets: {}, loading: false });
+      return;
+    }
+
+    let cancelled = false;
+    setState(prev => ({ ...prev, loading: true }));
+
+    backendApi.getPrepSheets(slug)
+      .then(sheets => {
+        if (!cancelled) {
+          setState({ sheets: Object.fromEntries(sheets.map(sheet => [sheet.playerId, sheet])), loading: false });
+        }
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setState(prev => ({ ...prev, loading: false, error: error instanceof Error ? error.message : 'Failed to load prep sheets' }));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, refreshKey]);
+
+  /**
+   * @returns True if the prep sheet was saved
+   */
+  const savePrepSheet = async (playerId: string, input: PrepSheetInput): Promise<boolean> => {
+    if (!slug) return false;
+
+    try {
+      const sheet = await backendApi.savePrepSheet(slug, playerId, input);
+      setState(prev => ({ ...prev, sheets: { ...prev.sheets, [playerId]: sheet }, error: undefined }));
+      return true;
+    } catch (error) {
+      setState(prev => ({ ...prev, error: error instanceof Error ? error.message : 'Failed to save prep sheet' }));
+      return false;
+    }
+  };
+
+  return { ...state, savePrepSheet };
+};
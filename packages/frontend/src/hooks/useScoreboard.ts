@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import type { Scoreboard } from '@commentary/shared';
+import { backendApi } from '../services/backendApi';
+
+interface ScoreboardState {
+  scoreboard?: Scoreboard;
+  error?: string;
+}
+
+/**
+ * Poll an event's broadcast scoreboard from the BFF
+ * @param slug - Tournament slug
+ * @param eventSlug - Event slug as it appears in start.gg URLs
+ * @param pollInterval - Milliseconds between polls
+ */
+export const useScoreboard = (slug?: string, eventSlug?: string, pollInterval = 2000) => {
+  const [state, setState] = useState<ScoreboardState>({});
+
+  useEffect(() => {
+    setState({});
+
+    if (!slug || !eventSlug) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchScoreboard = async () => {
+      try {
+        const scoreboard = await backendApi.getScoreboard(slug, eventSlug);
+        if (!cancelled) setState({ scoreboard });
+      } catch (error) {
+        // Keep showing the last scoreboard, the next poll may succeed
+        if (!cancelled) {
+          setState(prev => ({ ...prev, error: error instanceof Error ? error.message : 'Failed to load scoreboard' }));
+        }
+      }
+    };
+
+    fetchScoreboard();
+    const interval = setInterval(fetchScoreboard, pollInterval);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [slug, eventSlug, pollInterval]);
+
+  // Updates return the new scoreboard, show it without waiting for the next poll
+  const setScoreboard = (scoreboard: Scoreboard) => setState({ scoreboard });
+
+  return { ...state, setScoreboard };
+};
@@ -1,179 +1,253 @@
-import { useState, useEffect, useCallback } from 'react';
-import type { Tournament, TournamentEvent, Player, ApiError } from '@commentary/shared';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { Tournament, TournamentEvent, Player, Match, ApiError } from '@commentary/shared';
 import { tournamentService } from '../services/tournamentService';
 
 interface TournamentData {
   tournament?: Tournament;
   selectedEvent?: TournamentEvent;
   players: Player[];
-  majorContenders: Player[];
-  newContenders: Player[];
-  improving: Player[];
   loading: boolean;
-  error?: ApiError;
   loadingProgress?: {
     phase: string;
     bracket?: string;
     matches: number;
     total: number;
   };
+  lastLiveUpdate?: number;
+}
+
+/**
+ * One loaded tournament/event, shown as a dashboard tab
+ */
+export interface TournamentSession extends TournamentData {
+  id: string;
+  url: string;
+  eventName?: string;
+  liveUpdates: boolean;
+}
+
+export interface LiveMatch {
+  sessionId: string;
+  tournament: Tournament;
+  event: TournamentEvent;
+  match: Match;
+}
+
+interface SessionsState {
+  sessions: TournamentSession[];
+  activeSessionId?: string;
+  error?: ApiError;
 }
 
+const EMPTY_DATA: TournamentData = {
+  players: [],
+  loading: false,
+};
+
+/**
+ * Loading the same tournament and event twice reuses its tab
+ */
+export const getSessionId = (url: string, eventName?: string) => {
+  return `${url.trim().toLowerCase()}|${(eventName || '').trim().toLowerCase()}`;
+};
+
+const toTournamentData = (tournament: Tournament, selectedEvent: TournamentEvent | undefined, players: Player[]) => ({
+  tournament,
+  selectedEvent,
+  players,
+});
+
 export const useTournamentData = () => {
-  const [data, setData] = useState<TournamentData>({
-    players: [],
-    majorContenders: [],
-    newContenders: [],
-    improving: [],
-    loading: false,
-  });
+  const [state, setState] = useState<SessionsState>({ sessions: [] });
 
-  const [refreshInterval, setRefreshInterval] = useState<NodeJS.Timeout | null>(null);
+  // Live update subscriptions by session id - every tab can be live at once
+  const liveUnsubscribes = useRef(new Map<string, () => void>());
+  const sessionsRef = useRef(state.sessions);
+  sessionsRef.current = state.sessions;
 
   useEffect(() => {
     // Set up error handler
     const handleError = (error: ApiError) => {
-      setData(prev => ({ ...prev, error, loading: false }));
+      setState(prev => ({ ...prev, error }));
     };
 
     tournamentService.addErrorHandler(handleError);
 
+    const subscriptions = liveUnsubscribes.current;
     return () => {
-      if (refreshInterval) {
-        clearInterval(refreshInterval);
-      }
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      subscriptions.clear();
     };
-  }, [refreshInterval]);
+  }, []);
 
-  const loadTournament = useCallback(async (url: string, eventName?: string) => {
-    setData(prev => ({ ...prev, loading: true, error: undefined, loadingProgress: undefined }));
+  /**
+   * Update a session, a no-op once its tab is closed
+   */
+  const updateSession = useCallback((id: string, update: (session: TournamentSession) => Partial<TournamentSession>) => {
+    setState(prev => ({
+      ...prev,
+      sessions: prev.sessions.map(session => session.id === id ? { ...session, ...update(session) } : session),
+    }));
+  }, []);
+
+  const fetchSession = useCallback(async (id: string, url: string, eventName?: string, bustCache: boolean = false) => {
+    updateSession(id, () => ({ loading: true, loadingProgress: undefined }));
 
     try {
       const result = await tournamentService.loadTournamentFromUrl(
-        url, 
-        eventName, 
+        url,
+        eventName,
         // Progress callback
         (progress) => {
-          setData(prev => ({ ...prev, loadingProgress: progress }));
+          updateSession(id, () => ({ loadingProgress: progress }));
         },
         // Bracket completion callback - update UI immediately as each bracket loads
         (tournament, selectedEvent, players) => {
           if (tournament && selectedEvent && players) {
-            const categorized = tournamentService.categorizePlayersByStatus(players);
-            
-            setData(prev => ({
-              ...prev,
-              tournament,
-              selectedEvent,
-              players,
-              majorContenders: categorized.majorContenders,
-              newContenders: categorized.newContenders,
-              improving: categorized.improving,
-              // Keep loading true until all brackets are done
-            }));
+            // Keep loading true until all brackets are done
+            updateSession(id, () => toTournamentData(tournament, selectedEvent, players));
           }
-        }
+        },
+        bustCache
       );
-      
+
       // Final update when everything is complete
-      const categorized = tournamentService.categorizePlayersByStatus(result.players);
-      setData({
-        tournament: result.tournament,
-        selectedEvent: result.selectedEvent,
-        players: result.players,
-        majorContenders: categorized.majorContenders,
-        newContenders: categorized.newContenders,
-        improving: categorized.improving,
+      updateSession(id, () => ({
+        ...toTournamentData(result.tournament, result.selectedEvent, result.players),
         loading: false,
         loadingProgress: undefined,
-      });
+      }));
     } catch (error) {
       // Error is handled by the error handler
       console.error('Failed to load tournament:', error);
+      updateSession(id, () => ({ loading: false, loadingProgress: undefined }));
     }
-  }, []);
+  }, [updateSession]);
+
+  /**
+   * Open a tournament/event in a new tab, or reload and switch to its existing tab
+   */
+  const loadTournament = useCallback(async (url: string, eventName?: string) => {
+    const id = getSessionId(url, eventName);
+
+    setState(prev => ({
+      ...prev,
+      error: undefined,
+      activeSessionId: id,
+      sessions: prev.sessions.some(session => session.id === id)
+        ? prev.sessions
+        : [...prev.sessions, { ...EMPTY_DATA, id, url, eventName, liveUpdates: false }],
+    }));
+
+    await fetchSession(id, url, eventName);
+  }, [fetchSession]);
+
+  const activeSession = state.sessions.find(session => session.id === state.activeSessionId);
 
   const refreshData = useCallback(async (bustCache: boolean = false) => {
-    if (!data.tournament) return;
+    if (!activeSession?.tournament) return;
+
+    // Re-fetch with the URL the tab was opened with, so an event-scoped tab stays scoped to its event
+    await fetchSession(activeSession.id, activeSession.url, activeSession.eventName, bustCache);
+  }, [activeSession?.id, activeSession?.tournament, activeSession?.url, activeSession?.eventName, fetchSession]);
+
+  const stopAutoRefresh = useCallback((sessionId?: string) => {
+    const id = sessionId ?? state.activeSessionId;
+    if (!id) return;
+
+    liveUnsubscribes.current.get(id)?.();
+    liveUnsubscribes.current.delete(id);
+    updateSession(id, () => ({ liveUpdates: false }));
+  }, [state.activeSessionId, updateSession]);
+
+  const startAutoRefresh = useCallback((sessionId?: string) => {
+    const id = sessionId ?? state.activeSessionId;
+    const session = sessionsRef.current.find(session => session.id === id);
+    if (!session?.tournament) return;
+
+    liveUnsubscribes.current.get(session.id)?.();
+
+    // Live updates pushed by the backend over SSE - one shared upstream poller per tournament (and event).
+    // The tab's original URL keeps the subscription scoped to its event.
+    const unsubscribe = tournamentService.subscribeToTournament(
+      session.url,
+      session.eventName,
+      (result) => {
+        updateSession(session.id, () => ({
+          ...toTournamentData(result.tournament, result.selectedEvent, result.players),
+          lastLiveUpdate: Date.now(),
+        }));
+      }
+    );
 
-    try {
-      // Re-fetch current tournament data
-      const tournamentUrl = `https://www.start.gg/tournament/${data.tournament.slug}`;
-      const eventName = data.selectedEvent?.name;
+    liveUnsubscribes.current.set(session.id, unsubscribe);
+    updateSession(session.id, () => ({ liveUpdates: true }));
+  }, [state.activeSessionId, updateSession]);
 
-      const result = await tournamentService.loadTournamentFromUrl(
-        tournamentUrl,
-        eventName,
-        // Progress callback
-        (progress) => {
-          setData(prev => ({ ...prev, loadingProgress: progress }));
-        },
-        // Bracket completion callback - update UI immediately during refresh
-        (tournament, selectedEvent, players) => {
-          if (tournament && selectedEvent && players) {
-            const categorized = tournamentService.categorizePlayersByStatus(players);
-
-            setData(prev => ({
-              ...prev,
-              tournament,
-              selectedEvent,
-              players,
-              majorContenders: categorized.majorContenders,
-              newContenders: categorized.newContenders,
-              improving: categorized.improving,
-            }));
-          }
-        },
-        bustCache // Force cache bypass if requested
-      );
-      
-      const categorized = tournamentService.categorizePlayersByStatus(result.players);
-
-      setData(prev => ({
-        ...prev,
-        tournament: result.tournament,
-        selectedEvent: result.selectedEvent,
-        players: result.players,
-        majorContenders: categorized.majorContenders,
-        newContenders: categorized.newContenders,
-        improving: categorized.improving,
-        error: undefined,
-        loadingProgress: undefined,
-      }));
-    } catch (error) {
-      console.warn('Failed to refresh tournament data:', error);
-    }
-  }, [data.tournament, data.selectedEvent]);
+  const selectSession = useCallback((id: string) => {
+    setState(prev => ({ ...prev, activeSessionId: id }));
+  }, []);
 
-  const startAutoRefresh = useCallback(() => {
-    if (refreshInterval) {
-      clearInterval(refreshInterval);
-    }
+  /**
+   * Close a tab and stop its live updates
+   */
+  const closeSession = useCallback((id: string) => {
+    liveUnsubscribes.current.get(id)?.();
+    liveUnsubscribes.current.delete(id);
 
-    // Refresh every 30 seconds as per requirements
-    const interval = setInterval(refreshData, 30000);
-    setRefreshInterval(interval);
-  }, [refreshData, refreshInterval]);
+    setState(prev => {
+      const index = prev.sessions.findIndex(session => session.id === id);
+      const sessions = prev.sessions.filter(session => session.id !== id);
 
-  const stopAutoRefresh = useCallback(() => {
-    if (refreshInterval) {
-      clearInterval(refreshInterval);
-      setRefreshInterval(null);
-    }
-  }, [refreshInterval]);
+      // Closing the active tab moves to its neighbour
+      const activeSessionId = prev.activeSessionId === id
+        ? sessions[Math.min(index, sessions.length - 1)]?.id
+        : prev.activeSessionId;
+
+      return { ...prev, sessions, activeSessionId };
+    });
+  }, []);
 
   const clearError = useCallback(() => {
-    setData(prev => ({ ...prev, error: undefined }));
+    setState(prev => ({ ...prev, error: undefined }));
   }, []);
 
+  // In-progress matches across every tab, longest running first
+  const liveMatches = useMemo(() => {
+    const matches: LiveMatch[] = [];
+
+    for (const session of state.sessions) {
+      if (!session.tournament) continue;
+
+      const events = session.selectedEvent ? [session.selectedEvent] : session.tournament.events;
+      for (const event of events) {
+        for (const match of event.currentMatches) {
+          if (match.status === 'in_progress') {
+            matches.push({ sessionId: session.id, tournament: session.tournament, event, match });
+          }
+        }
+      }
+    }
+
+    return matches.sort((a, b) => (a.match.startedAt || 0) - (b.match.startedAt || 0));
+  }, [state.sessions]);
+
   return {
-    ...data,
+    ...EMPTY_DATA,
+    ...activeSession,
+    liveUpdates: activeSession?.liveUpdates ?? false,
+    sessions: state.sessions,
+    activeSessionId: state.activeSessionId,
+    liveMatches,
+    error: state.error,
     loadTournament,
     refreshData,
     startAutoRefresh,
     stopAutoRefresh,
+    selectSession,
+    closeSession,
     clearError,
   };
 };
 
-export default useTournamentData;
\ No newline at end of file
+export default useTournamentData;
@@ -1,8 +1,33 @@
 import axios from 'axios';
-import type { TournamentResponse } from '@commentary/shared';
+import type {
+  TournamentResponse,
+  TournamentChangesResponse,
+  TournamentLoadMessage,
+  PlayerProfileResponse,
+  HeadToHeadResponse,
+  EventStandingsResponse,
+  EventCharacterStatsResponse,
+  EventCategoriesResponse,
+  PlayerCharacterHistoryResponse,
+  Scoreboard,
+  ScoreboardUpdate,
+  Note,
+  NoteInput,
+  NotesResponse,
+  PrepSheet,
+  PrepSheetInput,
+  PrepSheetsResponse
+} from '@commentary/shared';
 
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
 
+/**
+ * Slug as the backend routes use it
+ * start.gg returns slugs as paths ("tournament/genesis-10", "tournament/genesis-10/event/melee-singles"),
+ * while backend routes and their cache and data store keys are built from the last segment
+ */
+export const toRouteSlug = (slug: string): string => slug.split('/').filter(Boolean).pop() || slug;
+
 class BackendApi {
   private axiosInstance;
 
@@ -20,11 +45,12 @@ class BackendApi {
    * Get tournament data from BFF (uses smart caching)
    * @param slug - Tournament slug
    * @param refresh - Force cache bypass
+   * @param eventSlug - Only load this event (other events are left out)
    */
-  async getTournamentBySlug(slug: string, refresh: boolean = false): Promise<TournamentResponse> {
+  async getTournamentBySlug(slug: string, refresh: boolean = false, eventSlug?: string): Promise<TournamentResponse> {
     try {
       const response = await this.axiosInstance.get<TournamentResponse>(
-        `/api/tournament/${slug}`,
+        this.getTournamentPath(slug, eventSlug),
         {
           params: refresh ? { refresh: 'true' } : {}
         }
@@ -36,7 +62,7 @@ class BackendApi {
         const message = error.response?.data?.error || error.message;
 
         if (status === 404) {
-          throw new Error(`Tournament "${slug}" not found`);
+          throw new Error(eventSlug ? message : `Tournament "${slug}" not found`);
         }
 
         if (status === 500) {
@@ -54,13 +80,77 @@ class BackendApi {
     }
   }
 
+  /**
+   * Load tournament progressively from BFF (NDJSON stream)
+   * Brackets arrive as soon as the backend loads them, so large tournaments
+   * aren't bound by the request timeout
+   * @param slug - Tournament slug
+   * @param refresh - Force cache bypass
+   * @param onMessage - Called for every message before the final response
+   * @param eventSlug - Only load this event (other events are left out)
+   */
+  async streamTournamentBySlug(
+    slug: string,
+    refresh: boolean = false,
+    onMessage?: (message: TournamentLoadMessage) => void,
+    eventSlug?: string
+  ): Promise<TournamentResponse> {
+    let response: Response;
+    try {
+      response = await fetch(
+        `${BACKEND_URL}${this.getTournamentPath(slug, eventSlug)}/progressive${refresh ? '?refresh=true' : ''}`
+      );
+    } catch {
+      throw new Error('Backend service unavailable. Please try again later.');
+    }
+
+    if (!response.ok || !response.body) {
+      if (response.status === 404) {
+        throw new Error(`Tournament "${slug}" not found`);
+      }
+      throw new Error(`API Error: ${response.statusText} (Status: ${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Each complete line is one message; keep any partial line for the next chunk
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        const message: TournamentLoadMessage = JSON.parse(line);
+        if (message.type === 'complete') {
+          reader.cancel();
+          return message.response;
+        }
+        if (message.type === 'error') {
+          reader.cancel();
+          throw new Error(`Backend error: ${message.error}`);
+        }
+        onMessage?.(message);
+      }
+
+      if (done) break;
+    }
+
+    throw new Error('Backend error: tournament stream ended before loading finished');
+  }
+
   /**
    * Explicitly refresh tournament data (bust cache)
    */
   async refreshTournament(slug: string): Promise<TournamentResponse> {
     try {
       const response = await this.axiosInstance.post<TournamentResponse>(
-        `/api/tournament/${slug}/refresh`
+        `/api/tournament/${toRouteSlug(slug)}/refresh`
       );
       return response.data;
     } catch (error) {
@@ -78,7 +168,7 @@ class BackendApi {
   async getCacheStatus(slug: string): Promise<{ cached: boolean; metadata: any }> {
     try {
       const response = await this.axiosInstance.get(
-        `/api/tournament/${slug}/cache-status`
+        `/api/tournament/${toRouteSlug(slug)}/cache-status`
       );
       return response.data;
     } catch (error) {
@@ -87,6 +177,327 @@ class BackendApi {
     }
   }
 
+  /**
+   * Get changes detected between tournament snapshots
+   * @param since - Unix timestamp (ms), only changes detected after it are returned
+   */
+  async getTournamentChanges(slug: string, since: number = 0): Promise<TournamentChangesResponse> {
+    try {
+      const response = await this.axiosInstance.get<TournamentChangesResponse>(
+        `/api/tournament/${toRouteSlug(slug)}/changes`,
+        {
+          params: { since }
+        }
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to load changes: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get final and projected placements of an event
+   * @param slug - Tournament slug
+   * @param eventSlug - Event slug as it appears in start.gg URLs
+   */
+  async getEventStandings(slug: string, eventSlug: string): Promise<EventStandingsResponse> {
+    try {
+      const response = await this.axiosInstance.get<EventStandingsResponse>(
+        `${this.getTournamentPath(slug, eventSlug)}/standings`
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to load standings: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get an event's character representation and win rates, and every player's picks
+   * @param slug - Tournament slug
+   * @param eventSlug - Event slug as it appears in start.gg URLs
+   */
+  async getEventCharacterStats(slug: string, eventSlug: string): Promise<EventCharacterStatsResponse> {
+    try {
+      const response = await this.axiosInstance.get<EventCharacterStatsResponse>(
+        `${this.getTournamentPath(slug, eventSlug)}/characters`
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to load character stats: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get an event's players categorized by the BFF's category rules
+   * @param slug - Tournament slug
+   * @param eventSlug - Event slug as it appears in start.gg URLs
+   */
+  async getEventCategories(slug: string, eventSlug: string): Promise<EventCategoriesResponse> {
+    try {
+      const response = await this.axiosInstance.get<EventCategoriesResponse>(
+        `${this.getTournamentPath(slug, eventSlug)}/categories`
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to load player categories: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get an event's broadcast scoreboard
+   * @param slug - Tournament slug
+   * @param eventSlug - Event slug as it appears in start.gg URLs
+   */
+  async getScoreboard(slug: string, eventSlug: string): Promise<Scoreboard> {
+    try {
+      const response = await this.axiosInstance.get<Scoreboard>(`/api/scoreboard/${toRouteSlug(slug)}/${toRouteSlug(eventSlug)}`);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to load scoreboard: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Select the scoreboard's set and/or override what overlays show
+   * @param slug - Tournament slug
+   * @param eventSlug - Event slug as it appears in start.gg URLs
+   * @param update - Fields to change, null clears a field
+   */
+  async updateScoreboard(slug: string, eventSlug: string, update: ScoreboardUpdate): Promise<Scoreboard> {
+    try {
+      const response = await this.axiosInstance.put<Scoreboard>(`/api/scoreboard/${toRouteSlug(slug)}/${toRouteSlug(eventSlug)}`, update);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to update scoreboard: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a tournament's commentator notes
+   * @param slug - Tournament slug
+   * @param filter - Only notes about this player (Player.id) and/or match
+   */
+  async getNotes(slug: string, filter: { playerId?: string; matchId?: string } = {}): Promise<Note[]> {
+    try {
+      const response = await this.axiosInstance.get<NotesResponse>(`/api/notes/${toRouteSlug(slug)}`, {
+        params: filter
+      });
+      return response.data.notes;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to load notes: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add a commentator note
+   * @param slug - Tournament slug
+   */
+  async createNote(slug: string, input: NoteInput): Promise<Note> {
+    try {
+      const response = await this.axiosInstance.post<Note>(`/api/notes/${toRouteSlug(slug)}`, input);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to save note: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a commentator note's text
+   * @param slug - Tournament slug
+   */
+  async updateNote(slug: string, id: string, text: string): Promise<Note> {
+    try {
+      const response = await this.axiosInstance.put<Note>(`/api/notes/${toRouteSlug(slug)}/${id}`, { text });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to update note: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a commentator note
+   * @param slug - Tournament slug
+   */
+  async deleteNote(slug: string, id: string): Promise<void> {
+    try {
+      await this.axiosInstance.delete(`/api/notes/${toRouteSlug(slug)}/${id}`);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to delete note: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the prep sheets of every player in a tournament
+   * @param slug - Tournament slug
+   */
+  async getPrepSheets(slug: string): Promise<PrepSheet[]> {
+    try {
+      const response = await this.axiosInstance.get<PrepSheetsResponse>(`/api/prep/${toRouteSlug(slug)}`);
+      return response.data.sheets;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to get prep sheets: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update a player's prep sheet
+   * @param slug - Tournament slug
+   * @param playerId - Player.id
+   */
+  async savePrepSheet(slug: string, playerId: string, input: PrepSheetInput): Promise<PrepSheet> {
+    try {
+      const response = await this.axiosInstance.put<PrepSheet>(`/api/prep/${toRouteSlug(slug)}/${playerId}`, input);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to save prep sheet: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a player's history and achievements across tournaments
+   * @param playerId - start.gg player id (Player.startggId)
+   */
+  async getPlayerProfile(playerId: string): Promise<PlayerProfileResponse> {
+    try {
+      const response = await this.axiosInstance.get<PlayerProfileResponse>(
+        `/api/player/${playerId}`
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to load player profile: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the characters a player picked across their recent sets
+   * @param playerId - start.gg player id (Player.startggId)
+   */
+  async getPlayerCharacterHistory(playerId: string): Promise<PlayerCharacterHistoryResponse> {
+    try {
+      const response = await this.axiosInstance.get<PlayerCharacterHistoryResponse>(
+        `/api/player/${playerId}/characters`
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to load player characters: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the set record between two players
+   * @param playerAId - start.gg player id (Player.startggId)
+   * @param playerBId - start.gg player id (Player.startggId)
+   */
+  async getHeadToHead(playerAId: string, playerBId: string): Promise<HeadToHeadResponse> {
+    try {
+      const response = await this.axiosInstance.get<HeadToHeadResponse>(
+        `/api/h2h/${playerAId}/${playerBId}`
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.error || error.message;
+        throw new Error(`Failed to load head-to-head: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to live tournament updates (Server-Sent Events)
+   * The backend shares one upstream poller between all subscribers of a slug
+   * @param eventSlug - Only stream this event (other events are left out)
+   * @returns Function that closes the stream
+   */
+  subscribeToTournament(
+    slug: string,
+    onUpdate: (response: TournamentResponse) => void,
+    onError?: (message: string) => void,
+    eventSlug?: string
+  ): () => void {
+    const eventSource = new EventSource(`${BACKEND_URL}${this.getTournamentPath(slug, eventSlug)}/stream`);
+
+    eventSource.addEventListener('tournament', (event) => {
+      onUpdate(JSON.parse((event as MessageEvent).data));
+    });
+
+    eventSource.addEventListener('stream-error', (event) => {
+      const payload = JSON.parse((event as MessageEvent).data);
+      onError?.(payload.error);
+    });
+
+    // EventSource reconnects automatically, just log connection drops
+    eventSource.onerror = () => {
+      console.warn(`[STREAM] Connection to ${slug} stream interrupted, reconnecting...`);
+    };
+
+    return () => eventSource.close();
+  }
+
+  /**
+   * Base path of the tournament routes, scoped to one event when given
+   */
+  private getTournamentPath(slug: string, eventSlug?: string): string {
+    const path = `/api/tournament/${toRouteSlug(slug)}`;
+    return eventSlug ? `${path}/event/${toRouteSlug(eventSlug)}` : path;
+  }
+
   /**
    * Extract slug from URL
    */
@@ -1,5 +1,5 @@
 import { backendApi } from './backendApi';
-import type { Tournament, TournamentEvent, Player, ApiError } from '@commentary/shared';
+import type { Tournament, TournamentEvent, Bracket, Match, Player, ApiError } from '@commentary/shared';
 
 export class TournamentService {
   private errorHandlers: ((error: ApiError) => void)[] = [];
@@ -31,7 +31,8 @@ export class TournamentService {
     players: Player[];
   }> {
     try {
-      // Parse and load tournament data
+      // Parse and load tournament data - only the URL's event when it names one
+      const eventSlug = this.getEventScope(url, eventName);
       const tournament = await this.parseTournamentUrl(url, onProgress, (tournament, event) => {
         // Find the selected event if we have one
         let targetEvent = event;
@@ -53,7 +54,7 @@ export class TournamentService {
 
         // Call the bracket complete callback with updated data
         onBracketComplete?.(tournament, targetEvent, eventPlayers);
-      }, refresh);
+      }, refresh, eventSlug);
       
       // Find specific event if eventName is provided, or extract from URL
       let selectedEvent: TournamentEvent | undefined;
@@ -65,31 +66,7 @@ export class TournamentService {
       }
       
       if (targetEventName) {
-        // Try multiple matching strategies
-        selectedEvent = tournament.events.find(event => {
-          const eventNameLower = event.name.toLowerCase();
-          const eventSlugLower = event.slug.toLowerCase();
-          const targetLower = targetEventName!.toLowerCase();
-          
-          // Direct slug match (most reliable)
-          if (eventSlugLower === targetLower) return true;
-          
-          // Slug contains target or target contains slug
-          if (eventSlugLower.includes(targetLower) || targetLower.includes(eventSlugLower)) return true;
-          
-          // Name contains target or target contains name
-          if (eventNameLower.includes(targetLower) || targetLower.includes(eventNameLower)) return true;
-          
-          // Try with spaces and dashes normalized
-          const normalizedTarget = targetLower.replace(/[-\s]+/g, ' ').trim();
-          const normalizedName = eventNameLower.replace(/[-\s]+/g, ' ').trim();
-          const normalizedSlug = eventSlugLower.replace(/[-\s]+/g, ' ').trim();
-          
-          if (normalizedName.includes(normalizedTarget) || normalizedTarget.includes(normalizedName)) return true;
-          if (normalizedSlug.includes(normalizedTarget) || normalizedTarget.includes(normalizedSlug)) return true;
-          
-          return false;
-        });
+        selectedEvent = this.findEvent(tournament, targetEventName);
         
         if (!selectedEvent) {
           // Log available events for debugging
@@ -127,27 +104,59 @@ export class TournamentService {
     url: string,
     onProgress?: (progress: { phase: string; bracket?: string; matches: number; total: number }) => void,
     onBracketComplete?: (tournament: Tournament, event: TournamentEvent) => void,
-    refresh: boolean = false
+    refresh: boolean = false,
+    eventSlug?: string
   ): Promise<Tournament> {
     try {
       if (this.isStartGgUrl(url)) {
-        // Call backend BFF which handles caching
-        const response = await backendApi.getTournamentByUrl(url, refresh);
+        // Stream from backend BFF (handles caching) so brackets render as they load
+        const slug = backendApi.extractSlugFromUrl(url);
+        let partial: Tournament | undefined;
+
+        const response = await backendApi.streamTournamentBySlug(slug, refresh, (message) => {
+          switch (message.type) {
+            case 'progress':
+              onProgress?.(message.progress);
+              break;
+            case 'tournament':
+              partial = message.tournament;
+              partial.events
+                .filter(event => event.brackets.length > 0)
+                .forEach(event => onBracketComplete?.(partial!, event));
+              break;
+            case 'event':
+              if (partial) {
+                partial = this.replaceEvent(partial, message.event);
+                onBracketComplete?.(partial, message.event);
+              }
+              break;
+            case 'bracket': {
+              const event = partial?.events.find(e => e.id === message.eventId);
+              if (partial && event) {
+                const brackets = event.brackets.map(b => b.id === message.bracket.id ? message.bracket : b);
+                const updatedEvent: TournamentEvent = {
+                  ...event,
+                  brackets,
+                  participants: message.participants,
+                  currentMatches: this.getCurrentMatches(brackets),
+                };
+                partial = this.replaceEvent(partial, updatedEvent);
+                onBracketComplete?.(partial, updatedEvent);
+              }
+              break;
+            }
+          }
+        }, eventSlug);
 
         // Log cache info
-        if (response.cached) {
+        if (response.metadata.stale) {
+          console.log(`[STALE] Showing last known tournament data while the backend refreshes it`);
+        } else if (response.cached) {
           console.log(`[CACHE HIT] Tournament loaded from cache (TTL: ${response.metadata.ttl}s)`);
         } else {
           console.log(`[CACHE MISS] Fresh tournament data loaded`);
         }
 
-        // Call progress and completion callbacks with the data
-        // Note: Backend doesn't support progressive loading callbacks yet,
-        // but we still support the interface for future enhancement
-        if (onProgress) {
-          onProgress({ phase: 'complete', matches: 0, total: 1 });
-        }
-
         if (onBracketComplete && response.data.events.length > 0) {
           response.data.events.forEach(event => {
             onBracketComplete(response.data, event);
@@ -175,91 +184,109 @@ export class TournamentService {
     }
   }
 
-  private isStartGgUrl(url: string): boolean {
-    return url.includes('start.gg/tournament/');
+  private replaceEvent(tournament: Tournament, event: TournamentEvent): Tournament {
+    return {
+      ...tournament,
+      events: tournament.events.map(e => e.id === event.id ? event : e),
+    };
   }
 
+  private getCurrentMatches(brackets: Bracket[]): Match[] {
+    // Same rules as the backend: pending or in-progress, without duplicates
+    return brackets
+      .flatMap(bracket => bracket.matches)
+      .filter(match => match.status === 'pending' || match.status === 'in_progress')
+      .filter((match, index, self) => index === self.findIndex(m => m.id === match.id));
+  }
 
-  categorizePlayersByStatus(players: Player[]): {
-    majorContenders: Player[];
-    newContenders: Player[];
-    improving: Player[];
-  } {
-    const majorContenders: Player[] = [];
-    const newContenders: Player[] = [];
-    const improving: Player[] = [];
+  /**
+   * Subscribe to live updates for a tournament instead of polling
+   * @returns Function that stops the subscription
+   */
+  subscribeToTournament(
+    url: string,
+    eventName: string | undefined,
+    onUpdate: (result: { tournament: Tournament; selectedEvent?: TournamentEvent; players: Player[] }) => void
+  ): () => void {
+    const slug = backendApi.extractSlugFromUrl(url);
+    const targetEventName = eventName || this.extractEventFromUrl(url);
+    const eventSlug = this.getEventScope(url, eventName);
 
-    // Sort players by their current tournament performance and history
-    players.forEach(player => {
-      const category = this.categorizePlayer(player);
-      
-      if (category === 'major') {
-        majorContenders.push(player);
-      } else if (category === 'new') {
-        newContenders.push(player);
-      } else if (category === 'improving') {
-        improving.push(player);
-      }
-    });
+    return backendApi.subscribeToTournament(
+      slug,
+      (response) => {
+        const tournament = response.data;
+        const selectedEvent = targetEventName ? this.findEvent(tournament, targetEventName) : undefined;
+        const players = selectedEvent
+          ? selectedEvent.participants
+          : tournament.events.flatMap(event => event.participants);
 
-    return { majorContenders, newContenders, improving };
+        onUpdate({ tournament, selectedEvent, players });
+      },
+      (message) => {
+        const error: ApiError = {
+          message: `Live update failed: ${message}`,
+          source: 'backend',
+          timestamp: new Date(),
+        };
+        this.errorHandlers.forEach(handler => handler(error));
+      },
+      eventSlug
+    );
   }
 
-  private categorizePlayer(player: Player): 'major' | 'new' | 'improving' | 'regular' {
-    // Check if player has current tournament progress (indicates active participation)
-    const hasCurrentProgress = player.currentTournament?.bracketPath?.length || 0;
-    const wins = player.currentTournament?.opponentHistory?.filter(m => m.result === 'win').length || 0;
-    const totalMatches = player.currentTournament?.opponentHistory?.length || 0;
-    
-    // Major contenders: Players performing well in current tournament
-    if (hasCurrentProgress > 3 && wins >= 2) {
-      return 'major';
-    }
-    
-    // Strong performance in current tournament (high win rate)
-    if (totalMatches >= 2 && wins / totalMatches >= 0.7) {
-      return 'major';
+  /**
+   * Event slug to scope backend requests to, so only that event is loaded
+   * Only the URL's event can be used - unless a typed event name refers to it, load everything
+   */
+  private getEventScope(url: string, eventName?: string): string | undefined {
+    const urlEventSlug = this.extractEventFromUrl(url);
+    if (!urlEventSlug) {
+      return undefined;
     }
 
-    // Historical tournament data (if available)
-    if (player.tournamentHistory && player.tournamentHistory.length > 0) {
-      const avgPlacement = player.tournamentHistory.reduce((sum, t) => sum + t.placement, 0) / player.tournamentHistory.length;
-      const recentTournaments = player.tournamentHistory.slice(-5);
-      const hasTopPlacements = player.tournamentHistory.some(t => t.placement <= 3);
-      
-      // Major contenders: consistently good placements
-      if (avgPlacement <= 8 && hasTopPlacements) {
-        return 'major';
-      }
-      
-      // New contenders: limited history but decent performance
-      if (player.tournamentHistory.length <= 3 && avgPlacement <= 16) {
-        return 'new';
-      }
-      
-      // Improving: getting better placements recently
-      if (recentTournaments.length >= 2) {
-        const recentAvg = recentTournaments.reduce((sum, t) => sum + t.placement, 0) / recentTournaments.length;
-        const olderAvg = player.tournamentHistory.slice(0, -5).reduce((sum, t) => sum + t.placement, 0) / Math.max(1, player.tournamentHistory.length - 5);
-        
-        if (recentAvg < olderAvg * 0.8) { // 20% improvement
-          return 'improving';
-        }
-      }
+    if (eventName && !this.matchesEvent({ name: urlEventSlug, slug: urlEventSlug }, eventName)) {
+      return undefined;
     }
 
-    // Current tournament based categorization for players without history
-    if (totalMatches >= 1 && wins >= 1) {
-      if (totalMatches <= 2) {
-        return 'new'; // New but showing promise
-      } else if (wins >= totalMatches * 0.6) {
-        return 'improving'; // Consistent performance
-      }
-    }
+    return urlEventSlug;
+  }
 
-    return 'regular';
+  private findEvent(tournament: Tournament, targetEventName: string): TournamentEvent | undefined {
+    return tournament.events.find(event => this.matchesEvent(event, targetEventName));
   }
 
+  private matchesEvent(event: Pick<TournamentEvent, 'name' | 'slug'>, targetEventName: string): boolean {
+    // Try multiple matching strategies
+    const eventNameLower = event.name.toLowerCase();
+    const eventSlugLower = event.slug.toLowerCase();
+    const targetLower = targetEventName.toLowerCase();
+    
+    // Direct slug match (most reliable)
+    if (eventSlugLower === targetLower) return true;
+    
+    // Slug contains target or target contains slug
+    if (eventSlugLower.includes(targetLower) || targetLower.includes(eventSlugLower)) return true;
+    
+    // Name contains target or target contains name
+    if (eventNameLower.includes(targetLower) || targetLower.includes(eventNameLower)) return true;
+    
+    // Try with spaces and dashes normalized
+    const normalizedTarget = targetLower.replace(/[-\s]+/g, ' ').trim();
+    const normalizedName = eventNameLower.replace(/[-\s]+/g, ' ').trim();
+    const normalizedSlug = eventSlugLower.replace(/[-\s]+/g, ' ').trim();
+    
+    if (normalizedName.includes(normalizedTarget) || normalizedTarget.includes(normalizedName)) return true;
+    if (normalizedSlug.includes(normalizedTarget) || normalizedTarget.includes(normalizedSlug)) return true;
+    
+    return false;
+  }
+
+  private isStartGgUrl(url: string): boolean {
+    return url.includes('start.gg/tournament/');
+  }
+
+
   extractEventFromUrl(url: string): string | null {
     // Extract event name from URLs like:
     // https://www.start.gg/tournament/manila-madness-4/event/tekken-8-twt-challenger-event
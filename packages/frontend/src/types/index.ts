@@ -2,7 +2,8 @@ export interface Player {
   id: string;
   tag: string;
   name?: string;
-  startggId?: string;
+  startggId?: string; // start.gg player id, same across tournaments
+  seed?: number; // Initial seed in the current event (1 = top seed)
   achievements?: Achievement[];
   tournamentHistory?: TournamentEntry[];
   currentTournament?: TournamentProgress;
@@ -48,12 +49,14 @@ export interface Tournament {
   slug: string;
   url: string;
   events: TournamentEvent[];
+  streamQueues?: StreamQueue[]; // start.gg stream queue, one per stream
 }
 
 export interface TournamentEvent {
   id: string;
   name: string;
   slug: string;
+  game?: string; // Video game name, e.g. "Tekken 8"
   brackets: Bracket[];
   participants: Player[];
   currentMatches: Match[];
@@ -68,6 +71,8 @@ export interface Bracket {
 export interface Match {
   id: string;
   round: string;
+  roundNumber?: number; // start.gg round: positive on the winners side, negative on the losers side
+  prerequisiteMatchIds?: string[]; // Sets whose results fill this set's slots, in slot order
   player1?: Player;
   player2?: Player;
   winner?: Player;
@@ -81,6 +86,36 @@ export interface Match {
   completedAt?: number; // Unix timestamp
   scheduledTime?: number; // Unix timestamp
   updatedAt?: number; // Unix timestamp
+  upsetFactor?: number; // Completed sets between seeded players: placement tiers the winner was seeded below the loser (0 = no upset)
+  loserPlacement?: number; // Placement the loser finishes at when this set eliminates them
+  station?: number; // Station (setup) number the set is called to
+  stream?: MatchStream; // Stream the set is assigned to
+  games?: MatchGame[]; // Game-by-game results, in play order (when reported)
+  winProbability?: number; // Pending and in-progress sets between rated players: player1's predicted chance to win (0-1)
+}
+
+export interface MatchGame {
+  number: number; // Game number within the set, starting at 1
+  winnerId?: string; // Player.id of the game's winner
+  stage?: string;
+  player1Character?: Character;
+  player2Character?: Character;
+}
+
+export interface Character {
+  id: string; // start.gg character id
+  name: string;
+}
+
+export interface MatchStream {
+  id: string;
+  name: string;
+  source?: string; // e.g. "TWITCH", "YOUTUBE"
+}
+
+export interface StreamQueue {
+  stream: MatchStream;
+  matchIds: string[]; // Match.id of the queued sets, in stream order
 }
 
 export interface ApiError {
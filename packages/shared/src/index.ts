@@ -3,7 +3,8 @@ export interface Player {
   id: string;
   tag: string;
   name?: string;
-  startggId?: string;
+  startggId?: string; // start.gg player id, same across tournaments
+  seed?: number; // Initial seed in the current event (1 = top seed)
   achievements?: Achievement[];
   tournamentHistory?: TournamentEntry[];
   currentTournament?: TournamentProgress;
@@ -49,12 +50,14 @@ export interface Tournament {
   slug: string;
   url: string;
   events: TournamentEvent[];
+  streamQueues?: StreamQueue[]; // start.gg stream queue, one per stream
 }
 
 export interface TournamentEvent {
   id: string;
   name: string;
   slug: string;
+  game?: string; // Video game name, e.g. "Tekken 8"
   brackets: Bracket[];
   participants: Player[];
   currentMatches: Match[];
@@ -69,6 +72,8 @@ export interface Bracket {
 export interface Match {
   id: string;
   round: string;
+  roundNumber?: number; // start.gg round: positive on the winners side, negative on the losers side
+  prerequisiteMatchIds?: string[]; // Sets whose results fill this set's slots, in slot order
   player1?: Player;
   player2?: Player;
   winner?: Player;
@@ -82,6 +87,60 @@ export interface Match {
   completedAt?: number; // Unix timestamp
   scheduledTime?: number; // Unix timestamp
   updatedAt?: number; // Unix timestamp
+  upsetFactor?: number; // Completed sets between seeded players: placement tiers the winner was seeded below the loser (0 = no upset)
+  loserPlacement?: number; // Placement the loser finishes at when this set eliminates them
+  station?: number; // Station (setup) number the set is called to
+  stream?: MatchStream; // Stream the set is assigned to
+  games?: MatchGame[]; // Game-by-game results, in play order (when reported)
+  winProbability?: number; // Pending and in-progress sets between rated players: player1's predicted chance to win (0-1)
+}
+
+export interface MatchGame {
+  number: number; // Game number within the set, starting at 1
+  winnerId?: string; // Player.id of the game's winner
+  stage?: string;
+  player1Character?: Character;
+  player2Character?: Character;
+}
+
+export interface Character {
+  id: string; // start.gg character id
+  name: string;
+}
+
+export interface MatchStream {
+  id: string;
+  name: string;
+  source?: string; // e.g. "TWITCH", "YOUTUBE"
+}
+
+export interface StreamQueue {
+  stream: MatchStream;
+  matchIds: string[]; // Match.id of the queued sets, in stream order
+}
+
+// Change tracking between tournament snapshots
+export type TournamentChangeType =
+  | 'match_started'
+  | 'score_changed'
+  | 'match_completed'
+  | 'entrant_added'
+  | 'bracket_added';
+
+export interface TournamentChange {
+  id: string;
+  type: TournamentChangeType;
+  eventId: string;
+  eventName: string;
+  detectedAt: number; // Unix timestamp (ms) when the BFF noticed the change
+  occurredAt?: number; // Unix timestamp reported by start.gg, when known
+  match?: Match;
+  previousScore?: Match['score'];
+  player?: Player;
+  bracket?: {
+    id: string;
+    name: string;
+  };
 }
 
 export interface ApiError {
@@ -125,7 +184,281 @@ export interface TournamentResponse {
   metadata: {
     cachedAt?: number;
     ttl?: number;
+    stale?: boolean; // Served past its TTL (stale-while-revalidate)
+    revalidating?: boolean; // A background refresh is in progress
     hasOngoingMatches: boolean;
     hasRecentMatches: boolean;
   };
 }
+
+export interface TournamentChangesResponse {
+  slug: string;
+  since: number;
+  until: number; // detectedAt of the newest change returned (or `since` if none), pass as the next `since`
+  changes: TournamentChange[];
+}
+
+/**
+ * Messages of the progressive tournament load stream (NDJSON, one per line)
+ * - tournament: initial tournament skeleton (events without matches)
+ * - event: an event's bracket structure is known (brackets without matches)
+ * - bracket: a bracket finished loading, with the event's participants so far
+ * - complete: final response, same shape as GET /api/tournament/:slug
+ */
+export type TournamentLoadMessage =
+  | { type: 'progress'; progress: ProgressUpdate }
+  | { type: 'tournament'; tournament: Tournament }
+  | { type: 'event'; event: TournamentEvent }
+  | { type: 'bracket'; eventId: string; bracket: Bracket; participants: Player[] }
+  | { type: 'complete'; response: TournamentResponse }
+  | { type: 'error'; error: string; source: 'backend' };
+
+// Final and projected placements of an event (GET /api/tournament/:slug/event/:eventSlug/standings)
+export interface Standing {
+  player: Player;
+  status: 'active' | 'eliminated' | 'winner';
+  placement?: number; // Final placement, once eliminated or the event is won
+  bestPlacement: number; // Best placement the player can still reach
+  worstPlacement: number; // Placement the player is guaranteed to finish at or above
+  guaranteedTop: number; // Last placement of worstPlacement's tier - e.g. 8 for 7th, which covers 7-8
+}
+
+export interface EventStandings {
+  eventId: string;
+  eventName: string;
+  entrants: number;
+  complete: boolean; // Every set of the event is completed
+  standings: Standing[]; // Best placements first
+}
+
+export interface EventStandingsResponse {
+  data: EventStandings;
+  cached: boolean;
+  metadata: {
+    cachedAt?: number;
+    ttl?: number;
+    stale?: boolean;
+  };
+}
+
+// Character usage statistics, from the characters reported per game
+export interface CharacterUsage {
+  character: Character;
+  games: number;
+  wins: number;
+  winRate: number; // 0-1
+}
+
+export interface EventCharacterUsage extends CharacterUsage {
+  players: number; // Players who picked the character at least once
+  pickRate: number; // Share of all character picks in the event (0-1)
+}
+
+export interface PlayerCharacterStats {
+  playerId: string; // Player.id within an event, start.gg player id (Player.startggId) across history
+  tag?: string;
+  games: number; // Games with a reported character
+  characters: CharacterUsage[]; // Most played first
+}
+
+export interface EventCharacterStats {
+  eventId: string;
+  eventName: string;
+  games: number; // Games with at least one reported character
+  characters: EventCharacterUsage[]; // Most picked first
+  players: PlayerCharacterStats[];
+}
+
+export interface EventCharacterStatsResponse {
+  data: EventCharacterStats;
+  cached: boolean;
+  metadata: {
+    cachedAt?: number;
+    ttl?: number;
+    stale?: boolean;
+  };
+}
+
+export interface PlayerCharacterHistoryResponse {
+  data: PlayerCharacterStats;
+  cached: boolean;
+  metadata: {
+    cachedAt?: number;
+    ttl?: number;
+  };
+}
+
+// Glicko-2 player ratings, rated from completed sets (GET /api/player/:id/rating)
+export interface PlayerRating {
+  playerId: string; // start.gg player id (Player.startggId)
+  tag?: string;
+  rating: number; // Glicko scale, new players start at 1500
+  deviation: number; // Rating uncertainty, new players start at 350
+  volatility: number;
+  sets: number; // Rated sets
+  updatedAt: number; // Unix timestamp (ms)
+}
+
+// Rule-based player categories of an event (GET /api/tournament/:slug/event/:eventSlug/categories)
+export type PlayerCategoryType = 'major_contender' | 'dark_horse' | 'losers_run' | 'new_contender' | 'improving';
+
+export type TournamentTier = 'local' | 'regional' | 'major'; // By entrant count
+
+export interface PlayerCategory {
+  type: PlayerCategoryType;
+  label: string; // e.g. "Dark Horse"
+  reason: string; // Why the player got the category, e.g. "Seed 24 beat seed 3 (Arslan Ash)"
+}
+
+export interface CategorizedPlayer {
+  player: Player;
+  categories: PlayerCategory[]; // In rule order, most notable first
+}
+
+export interface EventCategories {
+  eventId: string;
+  eventName: string;
+  tier: TournamentTier;
+  game?: string;
+  players: CategorizedPlayer[]; // Only players with at least one category, best seeds first
+}
+
+export interface EventCategoriesResponse {
+  data: EventCategories;
+  cached: boolean;
+  metadata: {
+    cachedAt?: number;
+    ttl?: number;
+    stale?: boolean;
+  };
+}
+
+// Background watcher for hot tournaments
+export interface WatchedTournament {
+  slug: string;
+  watchedSince: number; // Unix timestamp (ms)
+  expiresAt: number; // Unix timestamp (ms) - watch is dropped after this
+  lastRefreshedAt?: number; // Unix timestamp (ms)
+  nextRefreshAt?: number; // Unix timestamp (ms)
+  ttl?: number; // Shortest TTL among the tournament's cache entries at the last refresh (seconds)
+  lastError?: string;
+}
+
+// Broadcast scoreboard (GET/PUT /api/scoreboard/:slug/:eventSlug)
+export interface ScoreboardOverride {
+  player1Tag?: string;
+  player2Tag?: string;
+  player1Score?: number;
+  player2Score?: number;
+  round?: string;
+}
+
+export interface ScoreboardState {
+  matchId?: string; // Set shown on the scoreboard
+  override?: ScoreboardOverride; // Producer corrections while start.gg lags behind
+  updatedAt: number; // Unix timestamp (ms)
+}
+
+export interface Scoreboard extends ScoreboardState {
+  match?: Match; // The set as start.gg reports it
+  display?: Match; // The set with the override applied - what overlays show
+}
+
+export interface ScoreboardUpdate {
+  matchId?: string | null; // Switching sets drops the override, null clears the scoreboard
+  override?: ScoreboardOverride | null; // null clears the override
+}
+
+// Commentator notes (/api/notes/:slug)
+export interface Note {
+  id: string;
+  tournamentSlug: string;
+  playerId?: string; // Player.id the note is about
+  matchId?: string; // Match.id the note is about
+  text: string;
+  author?: string;
+  createdAt: number; // Unix timestamp (ms)
+  updatedAt: number; // Unix timestamp (ms)
+}
+
+export interface NoteInput {
+  playerId?: string;
+  matchId?: string;
+  text: string;
+  author?: string;
+}
+
+export interface NotesResponse {
+  slug: string;
+  notes: Note[]; // Oldest first
+}
+
+// Commentary prep sheets, one per player in a tournament (/api/prep/:slug)
+export interface PrepSheet {
+  tournamentSlug: string;
+  playerId: string; // Player.id
+  storyline?: string; // Pinned storyline
+  pronunciation?: string; // How to say the player's tag/name
+  talkingPoints: string[];
+  updatedAt: number; // Unix timestamp (ms)
+  updatedBy?: string;
+}
+
+export interface PrepSheetInput {
+  storyline?: string;
+  pronunciation?: string;
+  talkingPoints?: string[];
+  updatedBy?: string;
+}
+
+export interface PrepSheetsResponse {
+  slug: string;
+  sheets: PrepSheet[];
+}
+
+// Cross-tournament player profile (GET /api/player/:id)
+export interface PlayerProfile {
+  id: string; // start.gg player id (Player.startggId)
+  tag: string;
+  name?: string;
+  tournamentHistory: TournamentEntry[]; // Oldest first
+  achievements: Achievement[]; // Top 8 placements, most recent first
+}
+
+export interface PlayerProfileResponse {
+  data: PlayerProfile;
+  cached: boolean;
+  metadata: {
+    cachedAt?: number;
+    ttl?: number;
+  };
+}
+
+// Head-to-head between two players (GET /api/h2h/:playerA/:playerB)
+export interface HeadToHeadSet {
+  id: string;
+  tournament: string;
+  event: string;
+  round: string;
+  winnerId: string; // start.gg player id of the set winner
+  playerAScore?: number;
+  playerBScore?: number;
+  completedAt?: number; // Unix timestamp
+}
+
+export interface HeadToHeadRecord {
+  playerAId: string; // start.gg player ids (Player.startggId)
+  playerBId: string;
+  playerAWins: number;
+  playerBWins: number;
+  sets: HeadToHeadSet[]; // Most recent first
+}
+
+export interface HeadToHeadResponse {
+  data: HeadToHeadRecord;
+  cached: boolean;
+  metadata: {
+    cachedAt?: number;
+    ttl?: number;
+  };
+}